@@ -1,6 +1,6 @@
 
 import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
-import { Send, Menu, X, Sparkles, FolderOpen, AlertTriangle, Database, Globe, Lock, Zap, Briefcase, BarChart } from 'lucide-react';
+import { Send, Menu, X, Sparkles, FolderOpen, AlertTriangle, Database, Globe, Lock, Zap, Briefcase, BarChart, Square } from 'lucide-react';
 import Sidebar from './components/Sidebar';
 import ChatBubble from './components/ChatBubble';
 import KnowledgeGraph from './components/KnowledgeGraph';
@@ -9,8 +9,9 @@ import HelpModal from './components/HelpModal';
 import BenchmarkModal from './components/BenchmarkModal';
 import KnowledgeWikiModal from './components/KnowledgeWikiModal';
 import MetricsModal from './components/MetricsModal';
+import FilterBar from './components/FilterBar';
 import { ProcessingOverlay } from './components/ProcessingOverlay';
-import { ViewMode, GraphLayoutMode, GraphNode } from './types';
+import { ViewMode, GraphLayoutMode, GraphNode, ChunkingStrategy } from './types';
 import { useRAGApplication } from './hooks/useRAGApplication';
 import Button from './components/Button';
 import { getSettings } from './services/settings';
@@ -69,6 +70,11 @@ function App() {
       if (!state.isProcessing) setIsBackgroundProcessing(false);
   }, [state.isProcessing]);
 
+  // Views that work on individual chunks trigger the (one-time) chunk download
+  useEffect(() => {
+      if (isWikiOpen || isBenchmarkOpen || isMetricsOpen || viewMode === 'graph') actions.ensureChunksLoaded();
+  }, [isWikiOpen, isBenchmarkOpen, isMetricsOpen, viewMode]);
+
   const handleNewChat = () => {
       actions.handleNewChat();
       if (window.innerWidth < 768) setMobileMenuOpen(false);
@@ -86,13 +92,13 @@ function App() {
     }
   };
 
-  const onFilesSelectedWrapper = (files: FileList) => {
+  const onFilesSelectedWrapper = (files: FileList, chunkingStrategy?: ChunkingStrategy) => {
       const processableCount = Array.from(files).filter(f => 
-          f.name.match(/\.(md|txt|json|csv|xml|js|ts|py|log|docx)$/i)
+          f.name.match(/\.(md|txt|json|csv|xml|js|ts|py|log|docx|pdf|xlsx|xls)$/i)
       ).length;
       setTotalFilesToProcess(processableCount);
       setIsBackgroundProcessing(false); 
-      actions.handleFilesSelected(files);
+      actions.handleFilesSelected(files, chunkingStrategy);
   };
 
   const handleCancel = () => {
@@ -150,9 +156,11 @@ function App() {
       );
   }
 
+  const hasKnowledge = state.serverChunkCount > 0;
   const processedCount = state.docsList.filter(d => d.status === 'indexed' || d.status === 'error').length;
   const displayTotalFiles = Math.max(totalFilesToProcess, state.docsList.length);
-  const isFileProcessing = state.isProcessing && state.processingType === 'file';
+  const isReembedding = state.isProcessing && state.processingType === 'reembed';
+  const isFileProcessing = state.isProcessing && (state.processingType === 'file' || isReembedding);
   const showOverlay = isFileProcessing && !isBackgroundProcessing;
 
   const quickActions = [
@@ -175,9 +183,11 @@ function App() {
         <ProcessingOverlay 
             isOpen={showOverlay} 
             currentStatus={state.processingStatus}
-            processedFilesCount={processedCount}
-            totalFilesCount={displayTotalFiles}
-            totalChunks={state.customChunks.length}
+            processedFilesCount={isReembedding ? state.reembedJob?.processed || 0 : state.ingestProgress?.filesDone ?? processedCount}
+            totalFilesCount={isReembedding ? state.reembedJob?.total || 0 : state.ingestProgress?.filesTotal ?? displayTotalFiles}
+            totalChunks={isReembedding ? state.reembedJob?.processed || 0 : state.serverChunkCount}
+            chunkProgress={!isReembedding && state.ingestProgress ? { done: state.ingestProgress.embedded, total: state.ingestProgress.total, failed: state.ingestProgress.failed } : undefined}
+            progressLabel={isReembedding ? 'پیشرفت بردارسازی مجدد' : undefined}
             onCancel={handleCancel}
             onMinimize={() => setIsBackgroundProcessing(true)}
         />
@@ -197,6 +207,11 @@ function App() {
           onImportDB={actions.handleImportDB}
           fineTuningCount={state.fineTuningCount}
           onExportFineTuning={actions.handleExportFineTuning}
+          onDeleteDocument={actions.handleDeleteDocument}
+          onReindexDocument={actions.handleReindexDocument}
+          indexInfo={state.indexInfo}
+          onStartReembed={() => { setIsSettingsOpen(false); actions.handleStartReembed(); }}
+          onMigrateSchema={actions.handleMigrateSchema}
       />
       
       <HelpModal isOpen={isHelpOpen} onClose={() => setIsHelpOpen(false)} />
@@ -221,7 +236,7 @@ function App() {
             onOpenWiki={() => setIsWikiOpen(true)}
             onOpenBenchmark={() => setIsBenchmarkOpen(true)}
             onOpenMetrics={() => setIsMetricsOpen(true)}
-            totalChunks={state.customChunks.length}
+            totalChunks={state.serverChunkCount}
             lastBenchmarkScore={state.lastBenchmarkScore}
          />
       </div>
@@ -246,7 +261,7 @@ function App() {
                   <div className="max-w-4xl mx-auto w-full">
                     
                     {/* Empty State / Welcome Screen */}
-                    {state.customChunks.length === 0 && state.messages.length === 1 && (
+                    {!hasKnowledge && state.messages.length === 1 && (
                         <div className="mt-12 flex flex-col items-center justify-center text-center animate-fade-in">
                             <div className="w-24 h-24 bg-gradient-to-br from-white to-slate-100 dark:from-surface-800 dark:to-surface-900 border border-slate-200 dark:border-white/10 rounded-[2rem] flex items-center justify-center mb-8 shadow-2xl dark:shadow-[0_0_40px_-10px_rgba(99,102,241,0.3)] rotate-3 transition-transform hover:rotate-0 duration-500">
                                 <Sparkles className="w-10 h-10 text-brand-600 dark:text-brand-400 drop-shadow-[0_0_10px_rgba(129,140,248,0.5)]" />
@@ -268,7 +283,7 @@ function App() {
                     )}
 
                     {/* Chat Messages */}
-                    {state.customChunks.length > 0 && (
+                    {hasKnowledge && (
                         <>
                             {state.messages.length === 1 && (
                                 <div className="mb-10 animate-slide-up-fade">
@@ -323,6 +338,15 @@ function App() {
                         </div>
                     )}
 
+                    {/* Metadata Filters */}
+                    <FilterBar
+                        filters={state.searchFilters}
+                        onChange={actions.setSearchFilters}
+                        chunks={state.customChunks}
+                        onExpand={actions.ensureChunksLoaded}
+                        disabled={state.isProcessing}
+                    />
+
                     {/* The Input Bar */}
                     <div className={`
                         relative bg-white/80 dark:bg-surface-900/70 backdrop-blur-xl border border-slate-200 dark:border-white/10 shadow-[0_8px_32px_0_rgba(0,0,0,0.1)] dark:shadow-[0_8px_32px_0_rgba(0,0,0,0.5)] rounded-[2rem] p-2 transition-all duration-300
@@ -347,27 +371,37 @@ function App() {
                                 value={state.inputText}
                                 onChange={(e) => actions.setInputText(e.target.value)}
                                 onKeyDown={handleKeyDown}
-                                placeholder={state.customChunks.length > 0 ? "سوال خود را بپرسید..." : "منتظر بارگذاری..."}
+                                placeholder={hasKnowledge ? "سوال خود را بپرسید..." : "منتظر بارگذاری..."}
                                 className="flex-1 bg-transparent border-none focus:ring-0 resize-none max-h-32 min-h-[52px] py-3.5 px-2 text-slate-800 dark:text-white placeholder-slate-400 dark:placeholder-surface-500 text-[0.95rem] font-medium leading-relaxed custom-scrollbar"
                                 rows={1}
-                                disabled={state.isProcessing || state.customChunks.length === 0}
+                                disabled={state.isProcessing || !hasKnowledge}
                             />
 
-                            <button 
-                                onClick={actions.handleSendMessage}
-                                disabled={!state.inputText.trim() || state.isProcessing || state.customChunks.length === 0}
-                                className={`mb-1 p-3 rounded-full transition-all duration-300 flex items-center justify-center w-11 h-11 shadow-lg ${
-                                state.inputText.trim() && !state.isProcessing && state.customChunks.length > 0
-                                    ? 'bg-gradient-to-tr from-brand-600 to-brand-400 text-white hover:scale-110 active:scale-95 shadow-brand-500/30'
-                                    : 'bg-slate-100 dark:bg-surface-800 text-slate-400 dark:text-surface-600 cursor-not-allowed'
-                                }`}
-                            >
-                                {state.isProcessing ? (
-                                <Sparkles className="w-5 h-5 animate-spin" />
-                                ) : (
-                                <Send className="w-5 h-5 rtl:rotate-180" />
-                                )}
-                            </button>
+                            {state.isProcessing && state.processingType === 'chat' ? (
+                                <button 
+                                    onClick={actions.handleStopGeneration}
+                                    className="mb-1 p-3 rounded-full transition-all duration-300 flex items-center justify-center w-11 h-11 shadow-lg bg-red-500/90 text-white hover:bg-red-500 hover:scale-110 active:scale-95 shadow-red-500/30"
+                                    title="توقف تولید پاسخ"
+                                >
+                                    <Square className="w-4 h-4 fill-current" />
+                                </button>
+                            ) : (
+                                <button 
+                                    onClick={actions.handleSendMessage}
+                                    disabled={!state.inputText.trim() || state.isProcessing || !hasKnowledge}
+                                    className={`mb-1 p-3 rounded-full transition-all duration-300 flex items-center justify-center w-11 h-11 shadow-lg ${
+                                    state.inputText.trim() && !state.isProcessing && hasKnowledge
+                                        ? 'bg-gradient-to-tr from-brand-600 to-brand-400 text-white hover:scale-110 active:scale-95 shadow-brand-500/30'
+                                        : 'bg-slate-100 dark:bg-surface-800 text-slate-400 dark:text-surface-600 cursor-not-allowed'
+                                    }`}
+                                >
+                                    {state.isProcessing ? (
+                                    <Sparkles className="w-5 h-5 animate-spin" />
+                                    ) : (
+                                    <Send className="w-5 h-5 rtl:rotate-180" />
+                                    )}
+                                </button>
+                            )}
                         </div>
                     </div>
                     
@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { X, Play, Award, CheckCircle2, ChevronDown, ChevronUp, Upload, Database, Ticket, Zap, FileSpreadsheet, Download, Sliders, Check, RefreshCw } from 'lucide-react';
+import { X, Play, Award, CheckCircle2, ChevronDown, ChevronUp, Upload, Database, Ticket, Zap, FileSpreadsheet, Download, Sliders, Check, RefreshCw, AlertTriangle } from 'lucide-react';
 import { BenchmarkResult, KnowledgeChunk, BenchmarkRun, BenchmarkCase, TuningStepResult, SearchOverrides } from '../types';
 import { BENCHMARK_DATASET } from '../services/benchmarkData';
 import { runBenchmark, runAutoTuneBenchmark, saveBenchmarkRun, loadBenchmarkHistory, parseTicketCSV, parseBenchmarkCSV } from '../services/mockBackend';
@@ -72,7 +72,8 @@ const BenchmarkModal: React.FC<BenchmarkModalProps> = ({ isOpen, onClose, chunks
           avgScore: currentRunResults.reduce((acc, r) => acc + r.similarityScore, 0) / currentRunResults.length,
           passRate: (currentRunResults.filter(r => r.similarityScore > 0.7).length / currentRunResults.length) * 100,
           avgTime: 0,
-          results: currentRunResults
+          results: currentRunResults,
+          degradedCases: currentRunResults.filter(r => r.scoringDegraded).length
       });
       loadHistory();
       setIsRunning(false);
@@ -99,7 +100,7 @@ const BenchmarkModal: React.FC<BenchmarkModalProps> = ({ isOpen, onClose, chunks
 
   const handleDownloadRun = (run: BenchmarkRun) => {
       const BOM = "\uFEFF";
-      const headers = ['ID', 'Question', 'Ground Truth', 'Generated Answer', 'Score', 'Time (ms)'];
+      const headers = ['ID', 'Question', 'Ground Truth', 'Generated Answer', 'Score', 'Scoring', 'Time (ms)'];
       const escape = (text: string | number) => {
           if (text === null || text === undefined) return '';
           const str = String(text).replace(/"/g, '""'); 
@@ -113,6 +114,7 @@ const BenchmarkModal: React.FC<BenchmarkModalProps> = ({ isOpen, onClose, chunks
               escape(res.groundTruth),
               escape(res.generatedAnswer),
               escape(res.similarityScore),
+              escape(res.scoringDegraded ? `keyword-only (${res.scoringError})` : 'semantic'),
               escape(res.timeTakenMs)
           ].join(','))
       ].join('\n');
@@ -139,6 +141,11 @@ const BenchmarkModal: React.FC<BenchmarkModalProps> = ({ isOpen, onClose, chunks
                             <span className="text-xs font-bold px-2 py-1 rounded bg-brand-500/10 text-brand-400 border border-brand-500/30">
                                 {toPersianDigits((res.similarityScore * 100).toFixed(0))}٪
                             </span>
+                            {res.scoringDegraded && (
+                                <span className="text-[10px] px-2 py-0.5 rounded bg-amber-500/10 text-amber-400 border border-amber-500/30 flex items-center gap-1" title={res.scoringError}>
+                                    <AlertTriangle className="w-3 h-3" /> فقط کلمات کلیدی
+                                </span>
+                            )}
                             <span className="text-sm text-surface-200 truncate max-w-md">{res.question}</span>
                         </div>
                         {isExpanded ? <ChevronUp /> : <ChevronDown />}
@@ -282,8 +289,13 @@ const BenchmarkModal: React.FC<BenchmarkModalProps> = ({ isOpen, onClose, chunks
                                         {step.strategyName}
                                         {step.config === bestStrategy?.config && <span className="bg-emerald-500 text-white text-[10px] px-2 py-0.5 rounded-full">بهترین</span>}
                                     </div>
+                                    {!!step.degradedCases && (
+                                        <div className="text-[10px] text-amber-400 mb-1 flex items-center gap-1" title={step.logs.join('\n')}>
+                                            <AlertTriangle className="w-3 h-3" /> {toPersianDigits(step.degradedCases)} مورد بدون Embedding امتیاز گرفت (از رقابت حذف شد)
+                                        </div>
+                                    )}
                                     <div className="text-xs opacity-60 font-mono">
-                                        Reranker: {step.config.enableReranker ? 'ON' : 'OFF'} | Temp: {step.config.temperature} | VecW: {step.config.vectorWeight ?? 0.7}
+                                        Reranker: {step.config.enableReranker ? 'ON' : 'OFF'} | Temp: {step.config.temperature} | {step.config.fusionMode === 'rrf' ? `RRF k: ${step.config.rrfK ?? 60}` : `VecW: ${step.config.vectorWeight ?? 0.7}`}
                                     </div>
                                 </div>
                                 <div className="flex items-center gap-4">
@@ -320,6 +332,11 @@ const BenchmarkModal: React.FC<BenchmarkModalProps> = ({ isOpen, onClose, chunks
                                 <div>
                                     <div className="font-bold text-sm mb-1">{new Date(run.timestamp).toLocaleString('fa-IR')}</div>
                                     <div className="text-xs opacity-50">{toPersianDigits(run.totalCases)} سوال تست شده</div>
+                                    {!!run.degradedCases && (
+                                        <div className="text-[10px] text-amber-400 mt-1 flex items-center gap-1">
+                                            <AlertTriangle className="w-3 h-3" /> امتیاز {toPersianDigits(run.degradedCases)} مورد بدون Embedding (فقط کلمات کلیدی)
+                                        </div>
+                                    )}
                                 </div>
                                 <div className="flex items-center gap-4">
                                     <div className="text-left">
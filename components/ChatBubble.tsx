@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { User, BookOpen, Activity, ChevronDown, ChevronUp, ThumbsUp, ThumbsDown, Sparkles, Copy } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { User, BookOpen, Activity, ChevronDown, ChevronUp, ThumbsUp, ThumbsDown, Sparkles, Copy, SpellCheck } from 'lucide-react';
 import { Message } from '../types';
 import { toPersianDigits } from '../services/textProcessor';
 import RAGVisualization from './RAGVisualization';
@@ -162,72 +162,16 @@ const MarkdownRenderer: React.FC<{ content: string, isUser: boolean }> = ({ cont
 
 const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onOptionSelect, onFeedback }) => {
   const isUser = message.role === 'user';
+  // Only real answers can be rated (ratings become fine-tuning data)
+  const canRate = !message.options?.length && !message.isError && !message.isPartial;
   const [showDebug, setShowDebug] = useState(false);
   
-  const [displayedContent, setDisplayedContent] = useState(() => {
-      if (isUser) return message.content;
-      if (message.isThinking) return '';
-      return ''; // Start empty for typing effect on mount
-  });
-  
-  const [isTyping, setIsTyping] = useState(false);
   const contentRef = useRef<HTMLDivElement>(null);
-  const typeInterval = useRef<ReturnType<typeof setInterval> | null>(null);
-
-  useEffect(() => {
-      // Clean up previous interval
-      if (typeInterval.current) {
-          clearInterval(typeInterval.current);
-          typeInterval.current = null;
-      }
-
-      if (isUser) {
-          setDisplayedContent(message.content);
-          setIsTyping(false);
-          return;
-      }
-
-      if (message.isThinking) {
-          setDisplayedContent('');
-          setIsTyping(false);
-          return;
-      }
-
-      // If we are here, it's an AI message that is not thinking.
-      setIsTyping(true);
-      setDisplayedContent(''); 
-      
-      let currentIndex = 0;
-      const fullText = message.content || '';
-      const step = fullText.length > 500 ? 10 : 3; 
-      const delay = fullText.length > 500 ? 5 : 15;
-
-      const intervalId = setInterval(() => {
-          setDisplayedContent((prev) => {
-             // Calculate based on index instead of prev to avoid potential sync issues
-             // However, to keep it simple and performant:
-             let nextIndex = currentIndex + step;
-             if (nextIndex >= fullText.length) {
-                 nextIndex = fullText.length;
-             }
-             currentIndex = nextIndex;
-             
-             if (currentIndex >= fullText.length) {
-                  clearInterval(intervalId);
-                  setIsTyping(false);
-                  return fullText;
-             }
-             return fullText.substring(0, currentIndex);
-          });
-      }, delay);
 
-      typeInterval.current = intervalId;
-
-      return () => {
-          if (typeInterval.current) clearInterval(typeInterval.current);
-      };
-      // CRITICAL FIX: displayedContent removed from dependencies to prevent infinite reset loop
-  }, [message.content, message.isThinking, isUser]);
+  // Content arrives token-by-token from the server, so it is rendered as-is.
+  // The cursor is shown only while the stream is still open.
+  const displayedContent = message.isThinking ? '' : message.content;
+  const isTyping = !isUser && !!message.isStreaming;
 
   return (
     <div className={`flex w-full mb-8 ${isUser ? 'justify-end' : 'justify-start'} animate-slide-up-fade group`}>
@@ -251,6 +195,27 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onOptionSelect, onFeed
                 <RAGVisualization data={message.pipelineData} />
             )}
 
+            {!isUser && message.pipelineData?.correctedQuery && (
+                <div className="mb-3 flex items-start gap-2 text-xs text-slate-500 dark:text-surface-400 bg-amber-50 dark:bg-amber-500/10 border border-amber-200 dark:border-amber-500/20 rounded-xl px-3 py-2">
+                    <SpellCheck className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />
+                    <div>
+                        <span>جستجو برای «<span className="font-bold text-slate-700 dark:text-surface-200">{message.pipelineData.correctedQuery}</span>» انجام شد</span>
+                        {message.pipelineData.queryCorrections && message.pipelineData.queryCorrections.length > 0 && (
+                            <div className="mt-1 flex flex-wrap gap-1.5">
+                                {message.pipelineData.queryCorrections.map((c, i) => (
+                                    <span key={i} className="bg-white/70 dark:bg-black/20 rounded-md px-1.5 py-0.5 text-[10px]">
+                                        {/* Typo corrections are searched alongside the original word */}
+                                        {c.kind === 'typo'
+                                            ? <>{c.from} + {c.to}</>
+                                            : <><span className="line-through opacity-70">{c.from}</span> ← {c.to}</>}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
             {message.isThinking ? (
                <div className="flex items-center gap-3 text-slate-500 dark:text-surface-400 py-2">
                  <div className="flex gap-1.5">
@@ -282,12 +247,46 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onOptionSelect, onFeed
                             <div>
                                 <span className="text-slate-400 dark:text-surface-500 block text-[9px] uppercase tracking-widest mb-1">Candidates</span>
                                 <span className="font-bold text-slate-800 dark:text-white">{message.debugInfo.candidateCount}</span>
+                                {!!message.debugInfo.rejectedCount && (
+                                    <span className="ml-1 text-[10px] text-rose-500 dark:text-rose-400">(-{message.debugInfo.rejectedCount} &lt; minConf)</span>
+                                )}
+                                {!!message.debugInfo.redundantCount && (
+                                    <span className="ml-1 text-[10px] text-sky-500 dark:text-sky-400">(-{message.debugInfo.redundantCount} MMR)</span>
+                                )}
+                                {!!message.debugInfo.droppedForBudget && (
+                                    <span className="ml-1 text-[10px] text-amber-500 dark:text-amber-400">(-{message.debugInfo.droppedForBudget} budget)</span>
+                                )}
+                                {message.debugInfo.contextTokens !== undefined && (
+                                    <span className="block text-[10px] text-slate-400 dark:text-surface-500">~{message.debugInfo.contextTokens} tokens</span>
+                                )}
                             </div>
                             <div>
                                 <span className="text-slate-400 dark:text-surface-500 block text-[9px] uppercase tracking-widest mb-1">Logic Step</span>
                                 <span className="truncate block max-w-[150px] text-slate-800 dark:text-white" title={message.debugInfo.logicStep}>{message.debugInfo.logicStep}</span>
                             </div>
                         </div>
+                        {message.debugInfo.identifiers && (
+                            <div className="pt-3 mb-3 border-t border-slate-200 dark:border-white/5">
+                                <span className="text-slate-400 dark:text-surface-500 block text-[9px] uppercase tracking-widest mb-2">
+                                    Identifier Lookup ({message.debugInfo.pinnedCount ? `${message.debugInfo.pinnedCount} pinned` : 'no exact match'})
+                                </span>
+                                <div className="flex flex-wrap gap-1.5">
+                                    {message.debugInfo.identifiers.map((id, i) => (
+                                        <span key={i} className="px-2 py-0.5 bg-emerald-100 dark:bg-emerald-900/30 border border-emerald-200 dark:border-emerald-700/50 rounded text-[10px] text-emerald-700 dark:text-emerald-200">{id}</span>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {message.debugInfo.rerankModel && (
+                            <div className="pt-3 mb-3 border-t border-slate-200 dark:border-white/5">
+                                <span className="text-slate-400 dark:text-surface-500 block text-[9px] uppercase tracking-widest mb-2">Reranker ({message.debugInfo.rerankModel})</span>
+                                <div className="flex flex-wrap gap-1.5">
+                                    {message.debugInfo.rerankScores?.map((score, i) => (
+                                        <span key={i} className="px-2 py-0.5 bg-rose-100 dark:bg-rose-900/30 border border-rose-200 dark:border-rose-700/50 rounded text-[10px] text-rose-700 dark:text-rose-200">{score.toFixed(3)}</span>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                         {message.debugInfo.extractedKeywords?.length > 0 && (
                             <div className="pt-3 border-t border-slate-200 dark:border-white/5">
                                 <span className="text-slate-400 dark:text-surface-500 block text-[9px] uppercase tracking-widest mb-2">Keywords</span>
@@ -304,12 +303,16 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onOptionSelect, onFeed
                  {!isUser && !isTyping && (
                      <div className="mt-5 pt-3 border-t border-slate-200 dark:border-white/5 flex justify-between items-center opacity-0 group-hover:opacity-100 transition-opacity duration-300">
                          <div className="flex items-center gap-1">
-                             <button onClick={() => onFeedback && onFeedback(message.id, 1)} className={`p-1.5 rounded-lg transition-colors ${message.feedback === 1 ? 'bg-emerald-100 dark:bg-emerald-500/20 text-emerald-600 dark:text-emerald-400' : 'hover:bg-slate-100 dark:hover:bg-white/5 text-slate-400 dark:text-surface-500 hover:text-slate-700 dark:hover:text-white'}`}>
-                                 <ThumbsUp className="w-3.5 h-3.5" />
-                             </button>
-                             <button onClick={() => onFeedback && onFeedback(message.id, -1)} className={`p-1.5 rounded-lg transition-colors ${message.feedback === -1 ? 'bg-red-100 dark:bg-red-500/20 text-red-600 dark:text-red-400' : 'hover:bg-slate-100 dark:hover:bg-white/5 text-slate-400 dark:text-surface-500 hover:text-slate-700 dark:hover:text-white'}`}>
-                                 <ThumbsDown className="w-3.5 h-3.5" />
-                             </button>
+                             {canRate && (
+                                 <>
+                                     <button onClick={() => onFeedback && onFeedback(message.id, 1)} className={`p-1.5 rounded-lg transition-colors ${message.feedback === 1 ? 'bg-emerald-100 dark:bg-emerald-500/20 text-emerald-600 dark:text-emerald-400' : 'hover:bg-slate-100 dark:hover:bg-white/5 text-slate-400 dark:text-surface-500 hover:text-slate-700 dark:hover:text-white'}`}>
+                                         <ThumbsUp className="w-3.5 h-3.5" />
+                                     </button>
+                                     <button onClick={() => onFeedback && onFeedback(message.id, -1)} className={`p-1.5 rounded-lg transition-colors ${message.feedback === -1 ? 'bg-red-100 dark:bg-red-500/20 text-red-600 dark:text-red-400' : 'hover:bg-slate-100 dark:hover:bg-white/5 text-slate-400 dark:text-surface-500 hover:text-slate-700 dark:hover:text-white'}`}>
+                                         <ThumbsDown className="w-3.5 h-3.5" />
+                                     </button>
+                                 </>
+                             )}
                              <button 
                                 onClick={() => navigator.clipboard.writeText(message.content)}
                                 className="p-1.5 hover:bg-slate-100 dark:hover:bg-white/5 rounded-lg text-slate-400 dark:text-surface-500 hover:text-slate-700 dark:hover:text-white ml-1"
@@ -363,6 +366,12 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onOptionSelect, onFeed
                     <span className="font-medium max-w-[150px] truncate">{source.id}</span>
                     <span className="opacity-30">|</span>
                     <span>ص {toPersianDigits(source.page)}</span>
+                    {source.metadata?.sectionPath?.length ? (
+                        <>
+                            <span className="opacity-30">|</span>
+                            <span className="max-w-[180px] truncate" title={source.metadata.sectionPath.join(' › ')}>{source.metadata.sectionPath.join(' › ')}</span>
+                        </>
+                    ) : null}
                   </div>
                 ))}
             </div>
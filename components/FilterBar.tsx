@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { Filter, Plus, X } from 'lucide-react';
+import { KnowledgeChunk, MetadataFilter, MetadataFilterField, MetadataFilterOp } from '../types';
+import { categoryLabels } from '../services/graphEngine';
+import { toPersianDigits } from '../services/textProcessor';
+
+interface FilterBarProps {
+  filters: MetadataFilter[];
+  onChange: (filters: MetadataFilter[]) => void;
+  chunks: KnowledgeChunk[]; // Source of the suggested values (software, categories, tags)
+  onExpand?: () => void;    // Called when the add panel opens, so the chunks can be loaded on demand
+  disabled?: boolean;
+}
+
+const fieldLabels: Record<MetadataFilterField, string> = {
+    software: 'نرم‌افزار',
+    version: 'نسخه',
+    documentDate: 'تاریخ سند',
+    category: 'دسته',
+    ticketId: 'شماره تیکت',
+    customerId: 'کد مشتری',
+    tags: 'برچسب',
+    symbols: 'نماد'
+};
+
+const opLabels: Record<MetadataFilterOp, string> = { eq: '=', in: '∈', gte: '≥', lte: '≤', contains: '∋' };
+
+const datePresets = [
+    { months: 1, label: 'ماه اخیر' },
+    { months: 3, label: '۳ ماه اخیر' },
+    { months: 6, label: '۶ ماه اخیر' },
+    { months: 12, label: 'سال اخیر' }
+];
+
+/** ISO date (YYYY-MM-DD) `months` months before today. */
+const monthsAgo = (months: number): string => {
+    const date = new Date();
+    date.setMonth(date.getMonth() - months);
+    return date.toISOString().slice(0, 10);
+};
+
+const chipText = (filter: MetadataFilter): string => {
+    const value = Array.isArray(filter.value) ? filter.value.join('، ') : filter.value;
+    const shown = filter.field === 'category' ? (categoryLabels[value] || value) : value;
+    return `${fieldLabels[filter.field]} ${opLabels[filter.op]} ${toPersianDigits(shown)}`;
+};
+
+/**
+ * Chip bar above the chat input that restricts retrieval to matching chunk metadata
+ * (e.g. "Recsar, version ≥ 3.2, last 6 months"). The filters are sent with every search
+ * and applied by the server before the vector search.
+ */
+const FilterBar: React.FC<FilterBarProps> = ({ filters, onChange, chunks, onExpand, disabled }) => {
+    const [isAdding, setIsAdding] = useState(false);
+    const [field, setField] = useState<MetadataFilterField>('software');
+    const [op, setOp] = useState<MetadataFilterOp>('eq');
+    const [value, setValue] = useState('');
+
+    // Distinct values present in the knowledge base, offered as choices instead of free text
+    const suggestions = useMemo(() => {
+        const software = new Set<string>();
+        const categories = new Set<string>();
+        const tags = new Set<string>();
+        chunks.forEach(c => {
+            if (c.metadata?.software) software.add(c.metadata.software);
+            if (c.metadata?.category) categories.add(c.metadata.category);
+            c.metadata?.tags?.forEach(t => t && tags.add(t));
+        });
+        return { software: [...software].sort(), category: [...categories].sort(), tags: [...tags].sort() };
+    }, [chunks]);
+
+    const opsFor = (f: MetadataFilterField): MetadataFilterOp[] => {
+        if (f === 'version') return ['gte', 'lte', 'eq'];
+        if (f === 'documentDate') return ['gte', 'lte'];
+        if (f === 'tags' || f === 'symbols') return ['contains'];
+        return ['eq'];
+    };
+
+    const selectField = (f: MetadataFilterField) => {
+        setField(f);
+        setOp(opsFor(f)[0]);
+        setValue('');
+    };
+
+    const addFilter = (filter: MetadataFilter) => {
+        // A field/operator pair is set once: re-adding it replaces the previous value
+        onChange([...filters.filter(f => f.field !== filter.field || f.op !== filter.op), filter]);
+        setValue('');
+        setIsAdding(false);
+    };
+
+    const options: string[] | null =
+        field === 'software' ? suggestions.software :
+        field === 'category' ? suggestions.category :
+        field === 'tags' ? suggestions.tags : null;
+
+    const inputClass = "bg-slate-100 dark:bg-surface-800 border border-slate-200 dark:border-white/10 rounded-lg px-2 py-1 text-xs text-slate-700 dark:text-surface-200 focus:outline-none focus:ring-1 focus:ring-brand-500";
+
+    return (
+        <div className="mb-2 px-2">
+            <div className="flex flex-wrap items-center gap-1.5">
+                {filters.map((filter, i) => (
+                    <span key={`${filter.field}-${filter.op}-${i}`} className="flex items-center gap-1 bg-brand-50 dark:bg-brand-500/10 text-brand-700 dark:text-brand-300 border border-brand-200 dark:border-brand-500/30 rounded-full pl-1.5 pr-2.5 py-0.5 text-[11px] font-bold">
+                        {chipText(filter)}
+                        <button
+                            onClick={() => onChange(filters.filter((_, j) => j !== i))}
+                            disabled={disabled}
+                            className="p-0.5 rounded-full hover:bg-brand-100 dark:hover:bg-brand-500/20"
+                            title="حذف فیلتر"
+                        >
+                            <X className="w-3 h-3" />
+                        </button>
+                    </span>
+                ))}
+                <button
+                    onClick={() => {
+                        if (!isAdding) onExpand?.();
+                        setIsAdding(!isAdding);
+                    }}
+                    disabled={disabled}
+                    className="flex items-center gap-1 text-[11px] font-bold text-slate-500 dark:text-surface-400 bg-white/80 dark:bg-surface-900/70 backdrop-blur border border-dashed border-slate-300 dark:border-white/15 rounded-full px-2.5 py-0.5 hover:text-brand-600 dark:hover:text-brand-300 hover:border-brand-400 transition-colors"
+                >
+                    {filters.length === 0 ? <Filter className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+                    {filters.length === 0 ? 'فیلتر جستجو' : 'افزودن'}
+                </button>
+                {filters.length > 1 && (
+                    <button onClick={() => onChange([])} disabled={disabled} className="text-[10px] text-slate-400 dark:text-surface-500 hover:text-red-500 px-1">
+                        پاک کردن همه
+                    </button>
+                )}
+            </div>
+
+            {isAdding && (
+                <div className="mt-2 flex flex-wrap items-center gap-2 bg-white/90 dark:bg-surface-900/90 backdrop-blur-md border border-slate-200 dark:border-white/10 rounded-xl p-2 shadow-lg animate-fade-in">
+                    <select value={field} onChange={e => selectField(e.target.value as MetadataFilterField)} className={inputClass}>
+                        {(Object.keys(fieldLabels) as MetadataFilterField[]).map(f => (
+                            <option key={f} value={f}>{fieldLabels[f]}</option>
+                        ))}
+                    </select>
+
+                    {opsFor(field).length > 1 && (
+                        <select value={op} onChange={e => setOp(e.target.value as MetadataFilterOp)} className={`${inputClass} font-mono`}>
+                            {opsFor(field).map(o => <option key={o} value={o}>{opLabels[o]}</option>)}
+                        </select>
+                    )}
+
+                    {field === 'documentDate' && op === 'gte' && datePresets.map(p => (
+                        <button
+                            key={p.months}
+                            onClick={() => addFilter({ field: 'documentDate', op: 'gte', value: monthsAgo(p.months) })}
+                            className="text-[11px] font-bold px-2 py-1 rounded-lg bg-slate-100 dark:bg-surface-800 text-slate-600 dark:text-surface-300 hover:bg-brand-50 dark:hover:bg-brand-500/10 hover:text-brand-600"
+                        >
+                            {p.label}
+                        </button>
+                    ))}
+
+                    {options ? (
+                        <select value={value} onChange={e => setValue(e.target.value)} className={`${inputClass} min-w-[8rem]`}>
+                            <option value="">انتخاب...</option>
+                            {options.map(o => <option key={o} value={o}>{field === 'category' ? (categoryLabels[o] || o) : o}</option>)}
+                        </select>
+                    ) : (
+                        <input
+                            type={field === 'documentDate' ? 'date' : 'text'}
+                            value={value}
+                            onChange={e => setValue(e.target.value)}
+                            onKeyDown={e => { if (e.key === 'Enter' && value.trim()) addFilter({ field, op, value: value.trim() }); }}
+                            placeholder={field === 'version' ? '3.2' : ''}
+                            className={`${inputClass} w-32`}
+                            dir="ltr"
+                        />
+                    )}
+
+                    <button
+                        onClick={() => addFilter({ field, op, value: value.trim() })}
+                        disabled={!value.trim()}
+                        className="text-[11px] font-bold px-3 py-1 rounded-lg bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-40"
+                    >
+                        افزودن
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FilterBar;
@@ -291,7 +291,7 @@ const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                               Navigation Heuristics (هوشمندی ناوبری)
                           </h4>
                           <p className="text-xs text-slate-600 leading-6 text-justify">
-                              سیستم دارای یک لایه "پیش‌پردازش کوئری" است. اگر کاربر نام یک فرم یا گزارش را جستجو کند (مثلاً "گزارش کارمزد")، سیستم به طور خودکار کلمات <code>"منو"</code>، <code>"مسیر"</code> و <code>"آدرس"</code> را به جستجو تزریق می‌کند تا احتمال یافتن محل دسترسی آن در نرم‌افزار افزایش یابد. همچنین از یک دیکشنری مترادف‌ها (<code>synonymsData.ts</code>) برای گسترش جستجو استفاده می‌شود.
+                              سیستم دارای یک لایه "پیش‌پردازش کوئری" است. اگر کاربر نام یک فرم یا گزارش را جستجو کند (مثلاً "گزارش کارمزد")، سیستم به طور خودکار کلمات <code>"منو"</code>، <code>"مسیر"</code> و <code>"آدرس"</code> را به جستجو تزریق می‌کند تا احتمال یافتن محل دسترسی آن در نرم‌افزار افزایش یابد. همچنین از یک دیکشنری مترادف‌ها برای گسترش جستجو استفاده می‌شود که از تب «مترادف‌ها» در تنظیمات قابل ویرایش است.
                           </p>
                       </div>
                   </div>
@@ -1,7 +1,9 @@
 
-import React, { useMemo, useState, useRef } from 'react';
-import { X, BarChart2, TrendingUp, Calendar, Database, Activity, PieChart } from 'lucide-react';
-import { KnowledgeChunk } from '../types';
+import React, { useMemo, useState, useRef, useEffect } from 'react';
+import { X, BarChart2, TrendingUp, Calendar, Database, Activity, PieChart, Zap, Trash2 } from 'lucide-react';
+import { KnowledgeChunk, EmbeddingCacheStats } from '../types';
+import { getLocalEmbeddingCacheStats, getServerEmbeddingCacheStats, clearEmbeddingCaches } from '../services/database';
+import { toPersianDigits } from '../services/textProcessor';
 
 interface MetricsModalProps {
   isOpen: boolean;
@@ -12,6 +14,25 @@ interface MetricsModalProps {
 const MetricsModal: React.FC<MetricsModalProps> = ({ isOpen, onClose, chunks }) => {
   const [tooltipData, setTooltipData] = useState<{ x: number; y: number; label: string; value: number } | null>(null);
   const chartRef = useRef<HTMLDivElement>(null);
+  const [cacheStats, setCacheStats] = useState<{ server: EmbeddingCacheStats | null; browser: EmbeddingCacheStats | null }>({ server: null, browser: null });
+
+  const loadCacheStats = async () => {
+      const [server, browser] = await Promise.all([
+          getServerEmbeddingCacheStats().catch(() => null),
+          getLocalEmbeddingCacheStats().catch(() => null)
+      ]);
+      setCacheStats({ server, browser });
+  };
+
+  useEffect(() => {
+      if (isOpen) loadCacheStats();
+  }, [isOpen]);
+
+  const handleClearCache = async () => {
+      if (!window.confirm("کش بردارها (سرور و مرورگر) پاک شود؟ بردارها در پردازش بعدی دوباره ساخته می‌شوند.")) return;
+      await clearEmbeddingCaches().catch(e => console.error(e));
+      loadCacheStats();
+  };
 
   const stats = useMemo(() => {
     if (!chunks.length) return {
@@ -130,6 +151,21 @@ const MetricsModal: React.FC<MetricsModalProps> = ({ isOpen, onClose, chunks })
       );
   };
 
+  const renderCacheRow = (label: string, cache: EmbeddingCacheStats | null) => (
+      <div className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border border-slate-100 text-xs">
+          <span className="font-bold text-slate-700">{label}</span>
+          {cache ? (
+              <div className="flex items-center gap-4 text-slate-600">
+                  <span>بردار: <b>{toPersianDigits(cache.entries)}</b> / {toPersianDigits(cache.maxEntries)}</span>
+                  <span>Hit: <b className="text-emerald-600">{toPersianDigits(cache.hits)}</b></span>
+                  <span>Miss: <b className="text-amber-600">{toPersianDigits(cache.misses)}</b></span>
+                  <span>نرخ Hit: <b>{toPersianDigits(Math.round(cache.hitRate * 100))}٪</b></span>
+                  <span>حذف (LRU): <b>{toPersianDigits(cache.evictions)}</b></span>
+              </div>
+          ) : (<span className="text-slate-400">در دسترس نیست</span>)}
+      </div>
+  );
+
   if (!isOpen) return null;
 
   return (
@@ -156,6 +192,17 @@ const MetricsModal: React.FC<MetricsModalProps> = ({ isOpen, onClose, chunks })
                         {stats.data.length > 0 ? (<>{renderChart()}{tooltipData && (<><div className="absolute top-0 bottom-[20px] w-0.5 bg-slate-300 pointer-events-none transition-all duration-75" style={{ left: tooltipData.x }}></div><div className="absolute bg-slate-800 text-white text-xs rounded-lg p-2 shadow-xl pointer-events-none transform -translate-x-1/2 -translate-y-full transition-all duration-75 z-10" style={{ left: tooltipData.x, top: tooltipData.y - 10 }}><div className="font-bold mb-1">{tooltipData.label}</div><div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-blue-400"></span><span>{tooltipData.value} Chunks</span></div></div><div className="absolute w-3 h-3 bg-blue-600 border-2 border-white rounded-full pointer-events-none transition-all duration-75 shadow-sm" style={{ left: tooltipData.x - 6, top: tooltipData.y - 6 }}></div></>)}</>) : (<div className="h-full flex items-center justify-center text-slate-400 text-sm">داده‌ای برای نمایش وجود ندارد</div>)}
                     </div>
                 </div>
+                <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="font-bold text-slate-800 flex items-center gap-2"><Zap className="w-5 h-5 text-amber-500" />کش بردارهای Embedding</h3>
+                        <button onClick={handleClearCache} className="text-xs text-red-500 hover:bg-red-50 px-2 py-1 rounded flex items-center gap-1 transition-colors"><Trash2 className="w-3.5 h-3.5" />پاک کردن کش</button>
+                    </div>
+                    <div className="space-y-2">
+                        {renderCacheRow('سرور (ایندکس و بازسازی)', cacheStats.server)}
+                        {renderCacheRow('مرورگر (بنچمارک)', cacheStats.browser)}
+                    </div>
+                    <p className="text-[10px] text-slate-400 mt-3">آمار Hit/Miss از زمان راه‌اندازی سرور یا بارگذاری صفحه شمرده می‌شود.</p>
+                </div>
             </div>
         </div>
         <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end"><button onClick={onClose} className="px-6 py-2 bg-slate-800 hover:bg-slate-700 text-white text-sm font-medium rounded-lg transition-colors shadow-lg">بستن گزارش</button></div>
@@ -9,6 +9,8 @@ interface ProcessingOverlayProps {
   processedFilesCount: number;
   totalFilesCount: number;
   totalChunks: number;
+  progressLabel?: string;
+  chunkProgress?: { done: number; total: number; failed: number }; // Server-side embedding of the current file
   onCancel?: () => void;
   onMinimize?: () => void;
 }
@@ -26,6 +28,8 @@ export const ProcessingOverlay: React.FC<ProcessingOverlayProps> = ({
     processedFilesCount, 
     totalFilesCount, 
     totalChunks,
+    progressLabel = 'پیشرفت فایل‌ها',
+    chunkProgress,
     onCancel,
     onMinimize
 }) => {
@@ -214,7 +218,7 @@ export const ProcessingOverlay: React.FC<ProcessingOverlayProps> = ({
                                 </div>
                             </div>
                             <div>
-                                <div className="text-xs text-slate-400 font-bold uppercase tracking-wider">پیشرفت فایل‌ها</div>
+                                <div className="text-xs text-slate-400 font-bold uppercase tracking-wider">{progressLabel}</div>
                                 <div className="text-xl font-black text-slate-800">
                                     {toPersianDigits(processedFilesCount)} <span className="text-sm font-medium text-slate-400">/ {toPersianDigits(totalFilesCount)}</span>
                                 </div>
@@ -224,11 +228,22 @@ export const ProcessingOverlay: React.FC<ProcessingOverlayProps> = ({
                         <div className="bg-white border border-slate-200 p-4 rounded-2xl shadow-sm flex flex-col justify-center">
                             <div className="flex items-center gap-2 mb-1">
                                 <Database className="w-4 h-4 text-emerald-500" />
-                                <span className="text-xs text-slate-400 font-bold uppercase">Chunks ذخیره شده</span>
-                            </div>
-                            <div className="text-2xl font-black text-slate-800">
-                                {toPersianDigits(totalChunks)}
+                                <span className="text-xs text-slate-400 font-bold uppercase">{chunkProgress ? 'بردارسازی فایل جاری' : 'Chunks ذخیره شده'}</span>
                             </div>
+                            {chunkProgress ? (
+                                <>
+                                    <div className="text-2xl font-black text-slate-800">
+                                        {toPersianDigits(chunkProgress.done)} <span className="text-sm font-medium text-slate-400">/ {toPersianDigits(chunkProgress.total)}</span>
+                                    </div>
+                                    {chunkProgress.failed > 0 && (
+                                        <div className="text-[10px] font-bold text-red-500">{toPersianDigits(chunkProgress.failed)} قطعه ناموفق</div>
+                                    )}
+                                </>
+                            ) : (
+                                <div className="text-2xl font-black text-slate-800">
+                                    {toPersianDigits(totalChunks)}
+                                </div>
+                            )}
                         </div>
                     </div>
 
@@ -135,8 +135,16 @@ const RAGVisualization: React.FC<RAGVisualizationProps> = ({ data }) => {
                                         )}
                                         
                                         {step.id === 'reranking' && (isCurrent || isStepDone) && (
-                                             <div className="mt-1 text-[9px] text-surface-400 animate-fade-in">
-                                                مرتب‌سازی ترکیبی (Hybrid Score) نتایج یافت شده.
+                                             <div className="mt-1 text-[9px] text-surface-400 animate-fade-in space-y-1">
+                                                {isCurrent && data.rerankModel && (
+                                                    <div>امتیازدهی جفت (سوال، سند) با مدل <span className="font-mono text-rose-300" dir="ltr">{data.rerankModel}</span>...</div>
+                                                )}
+                                                {isStepDone && data.rerankApplied && (
+                                                    <div className="text-rose-300">مرتب‌سازی مجدد با Cross-Encoder انجام شد.</div>
+                                                )}
+                                                {isStepDone && !data.rerankApplied && (
+                                                    <div>مرتب‌سازی ترکیبی (Hybrid Score) نتایج یافت شده.{data.rerankModel && ' (Reranker در دسترس نبود)'}</div>
+                                                )}
                                              </div>
                                         )}
 
@@ -151,13 +159,47 @@ const RAGVisualization: React.FC<RAGVisualizationProps> = ({ data }) => {
                                                      {data.retrievedCandidates.filter(c => c.accepted).slice(0, 4).map((doc, i) => (
                                                         <div key={i} className="flex items-center justify-between text-[9px] text-emerald-100 bg-emerald-500/10 p-1.5 rounded border border-emerald-500/20 hover:bg-emerald-500/20 transition-colors">
                                                             <span className="truncate max-w-[150px]" title={doc.title}>{doc.title}</span>
-                                                            <span className="text-emerald-300 font-mono font-bold">{toPersianDigits((doc.score * 100).toFixed(0))}%</span>
+                                                            <span className="text-emerald-300 font-mono font-bold">{toPersianDigits(((doc.rerankScore ?? doc.score) * 100).toFixed(0))}%</span>
                                                         </div>
                                                     ))}
                                                     {data.retrievedCandidates.filter(c => c.accepted).length === 0 && (
                                                         <div className="text-[9px] text-surface-500 italic px-1">هیچ نتیجه با کیفیتی یافت نشد.</div>
                                                     )}
                                                 </div>
+
+                                                {/* Redundant Candidates (dropped by MMR) */}
+                                                {data.retrievedCandidates.some(c => c.redundant) && (
+                                                    <div className="space-y-1">
+                                                         <div className="text-[10px] font-bold text-sky-400 mb-1 flex justify-between">
+                                                            <span>تکراری (حذف با MMR)</span>
+                                                            <span className="opacity-50 text-[9px]">Redundant</span>
+                                                         </div>
+                                                         {data.retrievedCandidates.filter(c => c.redundant).slice(0, 3).map((doc, i) => (
+                                                            <div key={i} className="flex items-center justify-between text-[9px] text-surface-400 bg-sky-500/5 p-1.5 rounded border border-sky-500/10 opacity-70">
+                                                                <span className="truncate max-w-[150px]" title={doc.title}>{doc.title}</span>
+                                                                <span className="text-sky-300/70 font-mono">{toPersianDigits(((doc.rerankScore ?? doc.score) * 100).toFixed(0))}%</span>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                )}
+
+                                                {/* Rejected Candidates (below minConfidence) */}
+                                                {data.retrievedCandidates.some(c => !c.accepted && !c.redundant) && (
+                                                    <div className="space-y-1">
+                                                         <div className="text-[10px] font-bold text-rose-400 mb-1 flex justify-between">
+                                                            <span>رد شده (زیر آستانه)</span>
+                                                            {data.minConfidence !== undefined && (
+                                                                <span className="opacity-50 text-[9px] font-mono">&lt; {toPersianDigits((data.minConfidence * 100).toFixed(0))}%</span>
+                                                            )}
+                                                         </div>
+                                                         {data.retrievedCandidates.filter(c => !c.accepted && !c.redundant).slice(0, 3).map((doc, i) => (
+                                                            <div key={i} className="flex items-center justify-between text-[9px] text-surface-400 bg-rose-500/5 p-1.5 rounded border border-rose-500/10 line-through decoration-rose-500/40">
+                                                                <span className="truncate max-w-[150px]" title={doc.title}>{doc.title}</span>
+                                                                <span className="text-rose-300/70 font-mono">{toPersianDigits(((doc.rerankScore ?? doc.score) * 100).toFixed(0))}%</span>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                )}
                                             </div>
                                         )}
                                     </div>
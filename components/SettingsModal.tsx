@@ -1,21 +1,27 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Settings, Database, Server, Save, Trash2, Upload, FileText, CheckCircle2, AlertCircle, Download, Activity, Cpu, Crosshair, Sun, Moon, Network, Zap } from 'lucide-react';
-import { AppSettings, DocumentStatus } from '../types';
+import { X, Settings, Database, Server, Save, Trash2, Upload, FileText, CheckCircle2, AlertCircle, Download, Activity, Cpu, Crosshair, Sun, Moon, Network, Zap, RefreshCw, BookOpen } from 'lucide-react';
+import { AppSettings, DocumentStatus, IndexInfo, ChunkingStrategy } from '../types';
 import { getSettings, updateSettings } from '../services/settings';
 import { toPersianDigits } from '../services/textProcessor';
 import { checkOllamaConnection } from '../services/ollama';
+import SynonymManager from './SynonymManager';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   documents: DocumentStatus[];
-  onFilesSelected: (files: FileList) => void;
+  onFilesSelected: (files: FileList, chunkingStrategy: ChunkingStrategy) => void;
   onClearDB: () => void;
   onExportDB: () => void;
   onImportDB: (files: FileList) => void;
   fineTuningCount: number;
-  onExportFineTuning: () => void;
+  onExportFineTuning: (includeRejected: boolean) => void;
+  onDeleteDocument: (sourceId: string) => void;
+  onReindexDocument: (sourceId: string, files: FileList) => void;
+  indexInfo: IndexInfo | null;
+  onStartReembed: () => void;
+  onMigrateSchema: () => void;
 }
 
 const SettingsModal: React.FC<SettingsModalProps> = ({
@@ -27,13 +33,22 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     onExportDB,
     onImportDB,
     fineTuningCount,
-    onExportFineTuning
+    onExportFineTuning,
+    onDeleteDocument,
+    onReindexDocument,
+    indexInfo,
+    onStartReembed,
+    onMigrateSchema
 }) => {
-    const [activeTab, setActiveTab] = useState<'documents' | 'models' | 'advanced'>('documents');
+    const [activeTab, setActiveTab] = useState<'documents' | 'models' | 'advanced' | 'synonyms'>('documents');
     const [formData, setFormData] = useState<AppSettings>(getSettings());
     const [connectionStatus, setConnectionStatus] = useState<'idle' | 'testing' | 'success' | 'failed'>('idle');
+    const [includeRejected, setIncludeRejected] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const dbInputRef = useRef<HTMLInputElement>(null);
+    const reindexInputRef = useRef<HTMLInputElement>(null);
+    const [reindexTarget, setReindexTarget] = useState<string | null>(null);
+    const [uploadChunking, setUploadChunking] = useState<ChunkingStrategy>('auto');
 
     useEffect(() => {
         if (isOpen) {
@@ -66,6 +81,13 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
         }));
     };
 
+    const toggleFusionMode = () => {
+        setFormData(prev => ({
+            ...prev,
+            fusionMode: prev.fusionMode === 'rrf' ? 'linear' : 'rrf'
+        }));
+    };
+
     const handleTestConnection = async () => {
         setConnectionStatus('testing');
         const isOk = await checkOllamaConnection(formData.ollamaBaseUrl);
@@ -94,6 +116,13 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
 
     if (!isOpen) return null;
 
+    // Compared with the saved model: re-embedding always runs with the saved settings
+    const savedEmbeddingModel = getSettings().embeddingModel;
+    const hasUnsavedModel = formData.embeddingModel !== savedEmbeddingModel;
+    const hasIndexedData = !!indexInfo && indexInfo.count > 0;
+    const modelMismatch = hasIndexedData && indexInfo!.embeddingModel !== savedEmbeddingModel;
+    const canResumeReembed = indexInfo?.reembed?.status === 'paused' || indexInfo?.reembed?.status === 'failed';
+
     return (
         <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 dark:bg-black/80 backdrop-blur-md p-4 font-sans animate-in fade-in duration-200" dir="rtl">
             <div className="bg-white dark:bg-surface-900/90 border border-slate-200 dark:border-white/10 rounded-2xl w-full max-w-4xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden text-slate-800 dark:text-white backdrop-blur-xl">
@@ -137,6 +166,13 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                         <Activity className="w-4 h-4" />
                         تنظیمات پیشرفته
                     </button>
+                    <button 
+                        onClick={() => setActiveTab('synonyms')}
+                        className={`py-4 px-2 text-sm font-bold border-b-2 transition-all flex items-center gap-2 whitespace-nowrap ${activeTab === 'synonyms' ? 'border-brand-500 text-brand-600 dark:text-brand-400' : 'border-transparent text-slate-500 dark:text-surface-400 hover:text-slate-800 dark:hover:text-white'}`}
+                    >
+                        <BookOpen className="w-4 h-4" />
+                        مترادف‌ها
+                    </button>
                 </div>
 
                 {/* Content */}
@@ -152,14 +188,28 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                                     multiple 
                                     ref={fileInputRef} 
                                     className="hidden" 
-                                    onChange={(e) => e.target.files && onFilesSelected(e.target.files)}
-                                    accept=".md,.txt,.json,.csv,.xml,.js,.ts,.py,.log,.docx"
+                                    onChange={(e) => e.target.files && onFilesSelected(e.target.files, uploadChunking)}
+                                    accept=".md,.txt,.json,.csv,.xml,.js,.ts,.py,.log,.docx,.pdf,.xlsx,.xls"
                                 />
                                 <div className="w-16 h-16 bg-brand-50 dark:bg-brand-500/10 text-brand-500 dark:text-brand-400 rounded-full flex items-center justify-center mx-auto mb-4 border border-brand-200 dark:border-brand-500/20">
                                     <Upload className="w-8 h-8" />
                                 </div>
                                 <h3 className="font-bold text-slate-800 dark:text-white text-lg mb-2">بارگذاری مستندات جدید</h3>
-                                <p className="text-sm text-slate-500 dark:text-surface-400 mb-6">فایل‌های متنی (Word, PDF, TXT) را انتخاب کنید</p>
+                                <p className="text-sm text-slate-500 dark:text-surface-400 mb-4">فایل‌های متنی (Word, PDF, TXT) را انتخاب کنید</p>
+                                <div className="flex items-center justify-center gap-2 mb-6 text-xs text-slate-500 dark:text-surface-400">
+                                    <label htmlFor="uploadChunking">روش قطعه‌بندی:</label>
+                                    <select
+                                        id="uploadChunking"
+                                        value={uploadChunking}
+                                        onChange={(e) => setUploadChunking(e.target.value as ChunkingStrategy)}
+                                        className="bg-white dark:bg-surface-900 border border-slate-200 dark:border-white/10 rounded-lg px-2 py-1 text-slate-700 dark:text-surface-200 outline-none focus:border-brand-500"
+                                    >
+                                        <option value="auto">خودکار (بر اساس ساختار فایل)</option>
+                                        <option value="structure">بر اساس سرفصل‌ها</option>
+                                        <option value="qa">پرسش و پاسخ (سوال:)</option>
+                                        <option value="plain">متن ساده</option>
+                                    </select>
+                                </div>
                                 <button 
                                     onClick={() => fileInputRef.current?.click()}
                                     className="bg-brand-600 hover:bg-brand-500 text-white px-6 py-2.5 rounded-lg font-bold shadow-lg shadow-brand-500/30 transition-all hover:scale-105 active:scale-95"
@@ -207,21 +257,55 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                                     <span>نام فایل</span>
                                     <span>وضعیت</span>
                                 </div>
+                                <input 
+                                    type="file" 
+                                    ref={reindexInputRef} 
+                                    className="hidden" 
+                                    onChange={(e) => {
+                                        if (e.target.files && reindexTarget) onReindexDocument(reindexTarget, e.target.files);
+                                        e.target.value = '';
+                                        setReindexTarget(null);
+                                    }}
+                                    accept=".md,.txt,.json,.csv,.xml,.js,.ts,.py,.log,.docx,.pdf,.xlsx,.xls"
+                                />
                                 <div className="max-h-60 overflow-y-auto custom-scrollbar">
                                     {documents.length === 0 ? (
                                         <div className="p-8 text-center text-slate-400 dark:text-surface-500 text-sm opacity-50">لیست خالی است</div>
                                     ) : (
                                         documents.map((doc, i) => (
                                             <div key={i} className="px-4 py-3 border-b border-slate-100 dark:border-white/5 last:border-0 flex justify-between items-center hover:bg-slate-50 dark:hover:bg-white/5 transition-colors">
-                                                <div className="flex items-center gap-3">
-                                                    <FileText className="w-4 h-4 text-slate-400 dark:text-surface-500" />
-                                                    <span className="text-sm font-medium text-slate-700 dark:text-surface-300 truncate max-w-[200px]" dir="ltr">{doc.name}</span>
+                                                <div className="flex items-center gap-3 min-w-0">
+                                                    <FileText className="w-4 h-4 text-slate-400 dark:text-surface-500 shrink-0" />
+                                                    <div className="min-w-0">
+                                                        <span className="block text-sm font-medium text-slate-700 dark:text-surface-300 truncate max-w-[200px]" dir="ltr">{doc.name}</span>
+                                                        {doc.ingestedAt ? (
+                                                            <span className="block text-[10px] text-slate-400 dark:text-surface-500">{new Date(doc.ingestedAt).toLocaleString('fa-IR')}</span>
+                                                        ) : null}
+                                                    </div>
                                                 </div>
                                                 <div className="flex items-center gap-2">
                                                     {doc.status === 'indexed' && <span className="text-[10px] bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border border-emerald-500/20 px-2 py-0.5 rounded-full font-bold flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> ایندکس شده ({toPersianDigits(doc.chunks)})</span>}
                                                     {doc.status === 'processing' && <span className="text-[10px] bg-blue-500/10 text-blue-600 dark:text-blue-400 border border-blue-500/20 px-2 py-0.5 rounded-full font-bold flex items-center gap-1"><Activity className="w-3 h-3 animate-spin" /> در حال پردازش</span>}
                                                     {doc.status === 'embedding' && <span className="text-[10px] bg-violet-500/10 text-violet-600 dark:text-violet-400 border border-violet-500/20 px-2 py-0.5 rounded-full font-bold flex items-center gap-1"><Cpu className="w-3 h-3 animate-pulse" /> بردارسازی</span>}
                                                     {doc.status === 'error' && <span className="text-[10px] bg-red-500/10 text-red-600 dark:text-red-400 border border-red-500/20 px-2 py-0.5 rounded-full font-bold flex items-center gap-1"><AlertCircle className="w-3 h-3" /> خطا</span>}
+                                                    {doc.status === 'indexed' && (
+                                                        <>
+                                                            <button 
+                                                                onClick={() => { setReindexTarget(doc.name); reindexInputRef.current?.click(); }}
+                                                                className="p-1.5 rounded-lg text-slate-400 dark:text-surface-500 hover:text-brand-600 dark:hover:text-brand-300 hover:bg-brand-50 dark:hover:bg-brand-500/10 transition-colors"
+                                                                title="بازسازی ایندکس با نسخه جدید فایل"
+                                                            >
+                                                                <RefreshCw className="w-3.5 h-3.5" />
+                                                            </button>
+                                                            <button 
+                                                                onClick={() => onDeleteDocument(doc.name)}
+                                                                className="p-1.5 rounded-lg text-slate-400 dark:text-surface-500 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors"
+                                                                title="حذف سند از پایگاه دانش"
+                                                            >
+                                                                <Trash2 className="w-3.5 h-3.5" />
+                                                            </button>
+                                                        </>
+                                                    )}
                                                 </div>
                                             </div>
                                         ))
@@ -252,8 +336,17 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                                         بازیابی (Import JSON)
                                     </button>
                                 </div>
-                                <div className="mr-auto">
-                                    <button onClick={onExportFineTuning} disabled={fineTuningCount === 0} className="flex items-center gap-2 px-4 py-2 bg-amber-500/10 text-amber-600 dark:text-amber-400 border border-amber-500/30 hover:bg-amber-500/20 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                                <div className="mr-auto flex items-center gap-3">
+                                    <label className="flex items-center gap-1.5 text-[10px] text-slate-500 dark:text-surface-400 cursor-pointer select-none">
+                                        <input 
+                                            type="checkbox" 
+                                            checked={includeRejected}
+                                            onChange={(e) => setIncludeRejected(e.target.checked)}
+                                            className="accent-amber-500"
+                                        />
+                                        شامل پاسخ‌های رد شده (👎)
+                                    </label>
+                                    <button onClick={() => onExportFineTuning(includeRejected)} disabled={fineTuningCount === 0} className="flex items-center gap-2 px-4 py-2 bg-amber-500/10 text-amber-600 dark:text-amber-400 border border-amber-500/30 hover:bg-amber-500/20 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
                                         <Download className="w-4 h-4" />
                                         دانلود دیتاست آموزشی ({toPersianDigits(fineTuningCount)})
                                     </button>
@@ -350,11 +443,67 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                                 </div>
                             </div>
 
+                            {indexInfo && (
+                                <div className="space-y-3 bg-slate-50 dark:bg-surface-800/30 p-4 rounded-xl border border-slate-200 dark:border-white/10">
+                                    <label className="block text-sm font-bold text-slate-600 dark:text-surface-300 flex items-center gap-2">
+                                        <Database className="w-4 h-4 text-emerald-500 dark:text-emerald-400" />
+                                        وضعیت ایندکس سرور
+                                    </label>
+                                    <div className="grid grid-cols-3 gap-2 text-[11px]">
+                                        <div className="bg-white dark:bg-surface-950 border border-slate-200 dark:border-white/10 rounded-lg p-2">
+                                            <div className="text-slate-400 dark:text-surface-500 mb-1">مدل بردارسازی ایندکس</div>
+                                            <div className="font-mono dir-ltr text-left truncate text-slate-700 dark:text-surface-200" title={indexInfo.embeddingModel || ''}>{indexInfo.embeddingModel || 'نامشخص'}</div>
+                                        </div>
+                                        <div className="bg-white dark:bg-surface-950 border border-slate-200 dark:border-white/10 rounded-lg p-2">
+                                            <div className="text-slate-400 dark:text-surface-500 mb-1">ابعاد بردار</div>
+                                            <div className="font-mono text-slate-700 dark:text-surface-200">{indexInfo.vectorDimension ? toPersianDigits(indexInfo.vectorDimension) : '-'}</div>
+                                        </div>
+                                        <div className="bg-white dark:bg-surface-950 border border-slate-200 dark:border-white/10 rounded-lg p-2">
+                                            <div className="text-slate-400 dark:text-surface-500 mb-1">نسخه ساختار</div>
+                                            <div className="font-mono text-slate-700 dark:text-surface-200">{toPersianDigits(indexInfo.schemaVersion)}</div>
+                                        </div>
+                                    </div>
+
+                                    {indexInfo.migrationRequired && (
+                                        <div className="flex items-center justify-between gap-3 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-[11px] text-amber-700 dark:text-amber-300">
+                                            <span className="flex items-center gap-2"><AlertCircle className="w-4 h-4 flex-shrink-0" />ساختار ایندکس (نسخه {toPersianDigits(indexInfo.schemaVersion)}) قدیمی است و تا ارتقا به نسخه {toPersianDigits(indexInfo.expectedSchemaVersion)} بارگذاری سند ممکن نیست.</span>
+                                            <button onClick={onMigrateSchema} className="flex-shrink-0 px-3 py-1.5 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-bold transition-colors">ارتقای ساختار</button>
+                                        </div>
+                                    )}
+
+                                    {!indexInfo.migrationRequired && (modelMismatch || canResumeReembed) && (
+                                        <div className="flex items-center justify-between gap-3 p-3 bg-rose-500/10 border border-rose-500/30 rounded-lg text-[11px] text-rose-700 dark:text-rose-300">
+                                            <span className="flex items-center gap-2">
+                                                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                                                {canResumeReembed
+                                                    ? `بردارسازی مجدد با ${indexInfo.reembed.targetModel} در ${toPersianDigits(indexInfo.reembed.processed || 0)} از ${toPersianDigits(indexInfo.reembed.total || 0)} متوقف شده است.`
+                                                    : indexInfo.embeddingModel
+                                                        ? `ایندکس با مدل دیگری ساخته شده است؛ جستجو با مدل فعلی تا بردارسازی مجدد ممکن نیست.`
+                                                        : `مدل سازنده ایندکس ثبت نشده است؛ برای اطمینان از سازگاری، بردارسازی مجدد را اجرا کنید.`}
+                                            </span>
+                                            <button
+                                                onClick={onStartReembed}
+                                                disabled={hasUnsavedModel}
+                                                title={hasUnsavedModel ? 'ابتدا تنظیمات را ذخیره کنید' : `بازسازی بردارها با ${savedEmbeddingModel}`}
+                                                className="flex-shrink-0 flex items-center gap-1 px-3 py-1.5 bg-rose-500 hover:bg-rose-600 text-white rounded-lg font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                            >
+                                                <RefreshCw className="w-3 h-3" />
+                                                {canResumeReembed ? 'ادامه بردارسازی' : 'بردارسازی مجدد'}
+                                            </button>
+                                        </div>
+                                    )}
+
+                                    {hasIndexedData && hasUnsavedModel && (
+                                        <p className="text-[10px] text-slate-500 dark:text-surface-500">پس از ذخیره مدل جدید، پایگاه دانش باید با همان مدل بردارسازی مجدد شود.</p>
+                                    )}
+                                </div>
+                            )}
+
                             <div className="space-y-2 bg-slate-50 dark:bg-surface-800/30 p-4 rounded-xl border border-slate-200 dark:border-white/10">
                                 <div className="flex items-center justify-between mb-2">
                                     <label className="block text-sm font-bold text-slate-600 dark:text-surface-300 flex items-center gap-2">
                                         <Crosshair className="w-4 h-4 text-rose-500 dark:text-rose-400" />
-                                        Hybrid Reranker Engine
+                                        Cross-Encoder Reranker
                                     </label>
                                     <button 
                                         onClick={toggleReranker}
@@ -365,9 +514,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                                 </div>
                                 
                                 <p className="text-[10px] text-slate-500 dark:text-surface-500 mb-3 leading-5">
-                                    استفاده از الگوریتم ترکیبی (امتیاز برداری + تطبیق کلمات کلیدی) برای مرتب‌سازی دقیق نتایج.
+                                    نتایج جستجوی ترکیبی با مدل Reranker (از طریق endpoint ‎/v1/rerank‎ سرور مدل) مجدداً امتیازدهی و مرتب می‌شوند.
                                     <br/>
-                                    اگر برنامه در مرحله "Reranking" متوقف می‌شود، این گزینه را خاموش کنید.
+                                    اگر Reranker در دسترس نباشد، ترتیب جستجوی ترکیبی حفظ می‌شود. در صورت کندی مرحله "Reranking" این گزینه را خاموش کنید.
                                 </p>
 
                                 <input 
@@ -377,10 +526,61 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                                     onChange={handleChange}
                                     disabled={!formData.enableReranker}
                                     className="w-full p-2 bg-white dark:bg-surface-900 border border-slate-200 dark:border-white/10 rounded-lg text-xs text-slate-800 dark:text-white disabled:opacity-50"
-                                    placeholder="Hybrid-Local-Engine"
+                                    placeholder="bge-reranker-v2-m3"
+                                />
+                            </div>
+
+                            <div className="space-y-2 bg-slate-50 dark:bg-surface-800/30 p-4 rounded-xl border border-slate-200 dark:border-white/10">
+                                <div className="flex items-center justify-between mb-2">
+                                    <label className="block text-sm font-bold text-slate-600 dark:text-surface-300 flex items-center gap-2">
+                                        <Network className="w-4 h-4 text-indigo-500 dark:text-indigo-400" />
+                                        Reciprocal Rank Fusion (RRF)
+                                    </label>
+                                    <button 
+                                        onClick={toggleFusionMode}
+                                        className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 ${formData.fusionMode === 'rrf' ? 'bg-brand-600' : 'bg-slate-300'}`}
+                                    >
+                                        <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${formData.fusionMode === 'rrf' ? 'translate-x-6' : 'translate-x-1'}`} />
+                                    </button>
+                                </div>
+                                
+                                <p className="text-[10px] text-slate-500 dark:text-surface-500 mb-3 leading-5">
+                                    به جای ترکیب خطی امتیاز برداری و کلیدی (وزن‌دهی با vectorWeight)، نتایج بر اساس رتبه در هر دو فهرست ادغام می‌شوند و نیازی به تنظیم وزن برای هر پایگاه دانش نیست.
+                                    <br/>
+                                    مقدار k کوچک‌تر، اهمیت رتبه‌های اول را بیشتر می‌کند (پیش‌فرض: ۶۰).
+                                </p>
+
+                                <input 
+                                    type="number" 
+                                    name="rrfK"
+                                    min="1"
+                                    value={formData.rrfK}
+                                    onChange={handleChange}
+                                    disabled={formData.fusionMode !== 'rrf'}
+                                    className="w-full p-2 bg-white dark:bg-surface-900 border border-slate-200 dark:border-white/10 rounded-lg text-xs text-slate-800 dark:text-white disabled:opacity-50"
+                                    placeholder="60"
                                 />
                             </div>
 
+                            <div className="space-y-2 bg-slate-50 dark:bg-surface-800/30 p-4 rounded-xl border border-slate-200 dark:border-white/10">
+                                <label className="block text-sm font-bold text-slate-600 dark:text-surface-300 flex items-center gap-2">
+                                    <Activity className="w-4 h-4 text-sky-500 dark:text-sky-400" />
+                                    تنوع منابع (MMR λ)
+                                </label>
+                                <div className="flex items-center gap-4">
+                                    <input 
+                                        type="range" 
+                                        name="mmrLambda"
+                                        min="0.3" max="1" step="0.05"
+                                        value={formData.mmrLambda}
+                                        onChange={handleChange}
+                                        className="flex-1 accent-sky-500 h-2 bg-slate-200 dark:bg-surface-800 rounded-lg appearance-none cursor-pointer"
+                                    />
+                                    <span className="font-mono bg-slate-100 dark:bg-surface-800 border border-slate-200 dark:border-white/10 px-3 py-1 rounded text-sm text-sky-600 dark:text-sky-300">{toPersianDigits(formData.mmrLambda)}</span>
+                                </div>
+                                <p className="text-[10px] text-slate-500 dark:text-surface-500">۱.۰ = فقط میزان ارتباط | مقادیر کمتر = حذف بخش‌های تقریباً تکراری و پوشش اسناد متنوع‌تر در پاسخ</p>
+                            </div>
+
                             <div className="space-y-2 pt-4 border-t border-slate-200 dark:border-white/10">
                                 <label className="block text-sm font-bold text-slate-600 dark:text-surface-300">Temperature (خلاقیت مدل)</label>
                                 <div className="flex items-center gap-4">
@@ -399,6 +599,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                         </div>
                     )}
                     
+                    {/* SYNONYMS TAB */}
+                    {activeTab === 'synonyms' && <SynonymManager />}
+
                     {/* ADVANCED TAB */}
                     {activeTab === 'advanced' && (
                         <div className="space-y-6 animate-in slide-in-from-right-4 fade-in">
@@ -473,6 +676,45 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                                         className="w-full p-3 bg-slate-100 dark:bg-surface-950 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-800 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none"
                                     />
                                 </div>
+                                <div className="space-y-2">
+                                    <label className="block text-sm font-bold text-slate-600 dark:text-surface-300">Embedding Batch Size</label>
+                                    <input 
+                                        type="number" 
+                                        min="1"
+                                        max="256"
+                                        name="embeddingBatchSize"
+                                        value={formData.embeddingBatchSize}
+                                        onChange={handleChange}
+                                        className="w-full p-3 bg-slate-100 dark:bg-surface-950 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-800 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none"
+                                    />
+                                    <p className="text-[10px] text-slate-500 dark:text-surface-500">تعداد متن در هر درخواست ‎/v1/embeddings‎ (در Ollama بومی همیشه ۱).</p>
+                                </div>
+                                <div className="space-y-2">
+                                    <label className="block text-sm font-bold text-slate-600 dark:text-surface-300">Embedding Concurrency</label>
+                                    <input 
+                                        type="number" 
+                                        min="1"
+                                        max="16"
+                                        name="embeddingConcurrency"
+                                        value={formData.embeddingConcurrency}
+                                        onChange={handleChange}
+                                        className="w-full p-3 bg-slate-100 dark:bg-surface-950 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-800 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none"
+                                    />
+                                    <p className="text-[10px] text-slate-500 dark:text-surface-500">حداکثر درخواست همزمان به سرور مدل. مقدار زیاد ممکن است سرور محلی را کند کند.</p>
+                                </div>
+                                <div className="space-y-2">
+                                    <label className="block text-sm font-bold text-slate-600 dark:text-surface-300">Context Token Budget</label>
+                                    <input 
+                                        type="number" 
+                                        min="500"
+                                        step="500"
+                                        name="contextTokenBudget"
+                                        value={formData.contextTokenBudget}
+                                        onChange={handleChange}
+                                        className="w-full p-3 bg-slate-100 dark:bg-surface-950 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-800 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none"
+                                    />
+                                    <p className="text-[10px] text-slate-500 dark:text-surface-500">سقف تقریبی توکن مستندات ارسالی به مدل چت. هر بخش والد فقط یک بار درج می‌شود.</p>
+                                </div>
                             </div>
                         </div>
                     )}
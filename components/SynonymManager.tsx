@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowLeftRight, ArrowLeft, Download, Upload, Trash2, Pencil, Plus, RotateCcw, Search, BookOpen } from 'lucide-react';
+import { SynonymEntry } from '../types';
+import { loadSynonyms, saveSynonymEntry, deleteSynonymEntry, importSynonyms, resetSynonyms } from '../services/database';
+import { createSynonymEntry, expandWithSynonyms, synonymsToCsv, synonymsToJson } from '../services/synonyms';
+import { parseSynonymsFile } from '../services/fileParser';
+import { toPersianDigits } from '../services/textProcessor';
+
+const splitSynonyms = (text: string) => text.split(/[,،\n]/).map(s => s.trim()).filter(Boolean);
+
+const downloadText = (content: string, fileName: string, type: string) => {
+    // BOM so Excel opens the Persian CSV as UTF-8
+    const blob = new Blob([type.startsWith('text/csv') ? '\uFEFF' + content : content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Settings tab for the query-expansion synonym dictionary. Changes are stored in IndexedDB
+ * immediately (no code release or Save button needed) and used by the next search.
+ */
+const SynonymManager: React.FC = () => {
+    const [entries, setEntries] = useState<SynonymEntry[]>([]);
+    const [filterText, setFilterText] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [term, setTerm] = useState('');
+    const [synonymsText, setSynonymsText] = useState('');
+    const [bidirectional, setBidirectional] = useState(false);
+    const [replaceOnImport, setReplaceOnImport] = useState(false);
+    const [previewQuery, setPreviewQuery] = useState('');
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = async () => setEntries(await loadSynonyms());
+
+    useEffect(() => { refresh(); }, []);
+
+    const visibleEntries = useMemo(() => {
+        const needle = filterText.trim().toLowerCase();
+        if (!needle) return entries;
+        return entries.filter(e => e.term.toLowerCase().includes(needle) || e.synonyms.some(s => s.toLowerCase().includes(needle)));
+    }, [entries, filterText]);
+
+    const preview = useMemo(() => previewQuery.trim() ? expandWithSynonyms(previewQuery, entries) : null, [previewQuery, entries]);
+
+    const resetForm = () => {
+        setEditingId(null);
+        setTerm('');
+        setSynonymsText('');
+        setBidirectional(false);
+    };
+
+    const handleSave = async () => {
+        const entry = createSynonymEntry(term, splitSynonyms(synonymsText), bidirectional);
+        if (!entry.term || entry.synonyms.length === 0) {
+            setMessage({ type: 'error', text: 'عبارت رسمی و دست‌کم یک مترادف لازم است.' });
+            return;
+        }
+        // Renaming the term changes the entry ID
+        if (editingId && editingId !== entry.id) await deleteSynonymEntry(editingId);
+        await saveSynonymEntry(entry);
+        setMessage({ type: 'success', text: `«${entry.term}» ذخیره شد.` });
+        resetForm();
+        await refresh();
+    };
+
+    const handleEdit = (entry: SynonymEntry) => {
+        setEditingId(entry.id);
+        setTerm(entry.term);
+        setSynonymsText(entry.synonyms.join('، '));
+        setBidirectional(entry.bidirectional);
+    };
+
+    const handleDelete = async (entry: SynonymEntry) => {
+        await deleteSynonymEntry(entry.id);
+        if (editingId === entry.id) resetForm();
+        await refresh();
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = await parseSynonymsFile(file);
+            if (replaceOnImport && !window.confirm(`کل دیکشنری با ${toPersianDigits(imported.length)} مورد فایل جایگزین شود؟`)) return;
+            await importSynonyms(imported, replaceOnImport);
+            setMessage({ type: 'success', text: `${toPersianDigits(imported.length)} مورد از «${file.name}» وارد شد.` });
+            await refresh();
+        } catch (err: any) {
+            setMessage({ type: 'error', text: `خطا در خواندن فایل: ${err.message}` });
+        }
+    };
+
+    const handleReset = async () => {
+        if (!window.confirm('همه تغییرات حذف و دیکشنری پیش‌فرض بازگردانده شود؟')) return;
+        await resetSynonyms();
+        resetForm();
+        setMessage({ type: 'success', text: 'دیکشنری پیش‌فرض بازگردانده شد.' });
+        await refresh();
+    };
+
+    const inputClass = "w-full bg-white dark:bg-surface-900 border border-slate-200 dark:border-white/10 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-white focus:outline-none focus:ring-1 focus:ring-brand-500";
+
+    return (
+        <div className="space-y-6 animate-in slide-in-from-right-4 fade-in">
+            {/* Toolbar */}
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h4 className="font-bold text-sm text-slate-800 dark:text-white flex items-center gap-2">
+                        <BookOpen className="w-4 h-4 text-brand-500" />
+                        دیکشنری مترادف‌ها ({toPersianDigits(entries.length)})
+                    </h4>
+                    <p className="text-xs text-slate-500 dark:text-surface-400 mt-1">عبارات محاوره‌ای و اصطلاحات محصول که به جستجو اضافه می‌شوند. تغییرات بلافاصله ذخیره می‌شوند.</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <label className="flex items-center gap-1.5 text-[11px] text-slate-500 dark:text-surface-400 cursor-pointer">
+                        <input type="checkbox" checked={replaceOnImport} onChange={e => setReplaceOnImport(e.target.checked)} className="accent-brand-500" />
+                        جایگزینی کامل
+                    </label>
+                    <button onClick={() => importInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-100 dark:bg-surface-800 text-slate-600 dark:text-surface-300 hover:bg-slate-200 dark:hover:bg-surface-700">
+                        <Upload className="w-3.5 h-3.5" /> ورود (CSV/JSON)
+                    </button>
+                    <input type="file" ref={importInputRef} className="hidden" accept=".csv,.json" onChange={handleImport} />
+                    <button onClick={() => downloadText(synonymsToCsv(entries), 'synonyms.csv', 'text/csv;charset=utf-8')} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-100 dark:bg-surface-800 text-slate-600 dark:text-surface-300 hover:bg-slate-200 dark:hover:bg-surface-700">
+                        <Download className="w-3.5 h-3.5" /> CSV
+                    </button>
+                    <button onClick={() => downloadText(synonymsToJson(entries), 'synonyms.json', 'application/json')} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-100 dark:bg-surface-800 text-slate-600 dark:text-surface-300 hover:bg-slate-200 dark:hover:bg-surface-700">
+                        <Download className="w-3.5 h-3.5" /> JSON
+                    </button>
+                    <button onClick={handleReset} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-500/20">
+                        <RotateCcw className="w-3.5 h-3.5" /> پیش‌فرض
+                    </button>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`text-xs px-3 py-2 rounded-lg border ${message.type === 'success' ? 'bg-emerald-50 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-300 border-emerald-200 dark:border-emerald-500/20' : 'bg-red-50 dark:bg-red-500/10 text-red-700 dark:text-red-300 border-red-200 dark:border-red-500/20'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            {/* Editor */}
+            <div className="bg-slate-50 dark:bg-surface-800/30 p-4 rounded-xl border border-slate-200 dark:border-white/10 space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div>
+                        <label className="block text-xs font-bold text-slate-600 dark:text-surface-300 mb-1">عبارت رسمی</label>
+                        <input value={term} onChange={e => setTerm(e.target.value)} placeholder="مثلاً: قدرت خرید" className={inputClass} />
+                    </div>
+                    <div className="md:col-span-2">
+                        <label className="block text-xs font-bold text-slate-600 dark:text-surface-300 mb-1">مترادف‌ها (با ویرگول جدا کنید)</label>
+                        <input value={synonymsText} onChange={e => setSynonymsText(e.target.value)} placeholder="توان خرید، اعتبار خرید، buying power" className={inputClass} />
+                    </div>
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <button
+                        onClick={() => setBidirectional(!bidirectional)}
+                        className={`flex items-center gap-2 text-xs font-bold px-3 py-1.5 rounded-lg border transition-colors ${bidirectional ? 'bg-brand-50 dark:bg-brand-500/10 border-brand-300 dark:border-brand-500/30 text-brand-700 dark:text-brand-300' : 'bg-white dark:bg-surface-900 border-slate-200 dark:border-white/10 text-slate-500 dark:text-surface-400'}`}
+                        title={bidirectional ? 'عبارت رسمی هم مترادف‌ها را به جستجو اضافه می‌کند' : 'فقط مترادف‌ها عبارت رسمی را اضافه می‌کنند'}
+                    >
+                        {bidirectional ? <ArrowLeftRight className="w-3.5 h-3.5" /> : <ArrowLeft className="w-3.5 h-3.5" />}
+                        {bidirectional ? 'دوطرفه' : 'یک‌طرفه (مترادف ← عبارت رسمی)'}
+                    </button>
+                    <div className="flex gap-2">
+                        {editingId && (
+                            <button onClick={resetForm} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 dark:text-surface-400 hover:bg-slate-100 dark:hover:bg-surface-800">انصراف</button>
+                        )}
+                        <button onClick={handleSave} className="flex items-center gap-1.5 px-4 py-1.5 rounded-lg text-xs font-bold bg-brand-600 text-white hover:bg-brand-700">
+                            <Plus className="w-3.5 h-3.5" /> {editingId ? 'ذخیره تغییرات' : 'افزودن'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {/* Expansion Preview */}
+            <div className="bg-slate-50 dark:bg-surface-800/30 p-4 rounded-xl border border-slate-200 dark:border-white/10 space-y-2">
+                <label className="block text-xs font-bold text-slate-600 dark:text-surface-300">پیش‌نمایش گسترش جستجو</label>
+                <input value={previewQuery} onChange={e => setPreviewQuery(e.target.value)} placeholder="یک سوال نمونه بنویسید، مثلاً: چقدر میتونم بخرم؟" className={inputClass} />
+                {preview && (
+                    preview.added.length === 0 ? (
+                        <p className="text-[11px] text-slate-500 dark:text-surface-500">هیچ مترادفی اضافه نمی‌شود.</p>
+                    ) : (
+                        <div className="flex flex-wrap gap-1.5">
+                            {preview.added.map((a, i) => (
+                                <span key={i} className="px-2 py-0.5 rounded text-[11px] bg-brand-100 dark:bg-brand-900/40 border border-brand-200 dark:border-brand-700/50 text-brand-700 dark:text-brand-200" title={`به خاطر «${a.trigger}»`}>
+                                    + {a.phrase} <span className="opacity-60">({a.trigger})</span>
+                                </span>
+                            ))}
+                        </div>
+                    )
+                )}
+            </div>
+
+            {/* Entries */}
+            <div className="space-y-2">
+                <div className="relative">
+                    <Search className="w-4 h-4 absolute right-3 top-2.5 text-slate-400" />
+                    <input value={filterText} onChange={e => setFilterText(e.target.value)} placeholder="جستجو در دیکشنری..." className={`${inputClass} pr-9`} />
+                </div>
+                <div className="max-h-80 overflow-y-auto custom-scrollbar divide-y divide-slate-100 dark:divide-white/5 border border-slate-200 dark:border-white/10 rounded-xl">
+                    {visibleEntries.map(entry => (
+                        <div key={entry.id} className="flex items-start justify-between gap-3 p-3 hover:bg-slate-50 dark:hover:bg-white/5">
+                            <div className="min-w-0">
+                                <div className="flex items-center gap-2 text-sm font-bold text-slate-800 dark:text-white">
+                                    {entry.term}
+                                    {entry.bidirectional
+                                        ? <ArrowLeftRight className="w-3.5 h-3.5 text-brand-500" />
+                                        : <ArrowLeft className="w-3.5 h-3.5 text-slate-400" />}
+                                </div>
+                                <p className="text-xs text-slate-500 dark:text-surface-400 mt-1 leading-relaxed">{entry.synonyms.join('، ')}</p>
+                            </div>
+                            <div className="flex gap-1 shrink-0">
+                                <button onClick={() => handleEdit(entry)} className="p-1.5 rounded-lg text-slate-400 hover:text-brand-600 hover:bg-brand-50 dark:hover:bg-brand-500/10" title="ویرایش">
+                                    <Pencil className="w-3.5 h-3.5" />
+                                </button>
+                                <button onClick={() => handleDelete(entry)} className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-500/10" title="حذف">
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                    {visibleEntries.length === 0 && (
+                        <p className="p-6 text-center text-xs text-slate-400 dark:text-surface-500">موردی یافت نشد.</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SynonymManager;
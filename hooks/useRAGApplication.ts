@@ -1,9 +1,10 @@
 
 import { useState, useRef, useEffect } from 'react';
-import { Message, DocumentStatus, KnowledgeChunk, Conversation, FineTuningRecord, PipelineData } from '../types';
+import { Message, DocumentStatus, KnowledgeChunk, Conversation, FineTuningRecord, PipelineData, IngestSummary, IngestJob, IngestProgress, IndexInfo, ReembedJob, ParseStep, ChunkingStrategy, MetadataFilter } from '../types';
 import { 
     processQuery, 
     parseFiles, 
+    isParsableFile,
     saveConversationToDB, 
     loadConversationsFromDB, 
     deleteConversationFromDB, 
@@ -11,10 +12,21 @@ import {
     getSettings,
     loadBenchmarkHistory,
     getFineTuningCount,   
+    saveFineTuningRecord,
+    exportFineTuningDataset,
     loadTicketsFromDB,
-    clearDatabase
+    clearDatabase,
+    listDocuments,
+    deleteDocument,
+    startReembed,
+    getReembedJob,
+    stopReembed,
+    migrateSchema,
+    toPersianDigits
 } from '../services/mockBackend';
 
+const REEMBED_POLL_MS = 1500;
+
 const INITIAL_MESSAGE: Message = {
   id: 'init-1',
   role: 'assistant',
@@ -22,6 +34,35 @@ const INITIAL_MESSAGE: Message = {
   timestamp: new Date(),
 };
 
+/**
+ * Builds the post-upload chat message: one line per file with new/unchanged/updated/removed chunk counts,
+ * followed by the files the server refused (e.g. schema or embedding-dimension conflicts).
+ */
+const formatIngestSummary = (summaries: IngestSummary[], chunkCount: number, failures: { fileName: string; error: string }[] = [], warnings: { fileName: string; warning: string }[] = []): string => {
+    const failureLines = [
+        ...failures.map(f => `- ❌ **${f.fileName}**: ${f.error}`),
+        ...warnings.map(w => `- ⚠️ **${w.fileName}**: ${w.warning}`)
+    ];
+    if (summaries.length === 0 && failures.length > 0) return [`⛔ ذخیره‌سازی انجام نشد.`, '', ...failureLines].join('\n');
+    if (summaries.length === 0) return [`✅ پردازش تکمیل شد. ${chunkCount} قطعه به سرور ارسال شد.`, ...failureLines].join('\n');
+
+    const lines = summaries.map(s =>
+        `- **${s.sourceId}**: جدید ${s.new} · بدون تغییر ${s.unchanged} · به‌روزرسانی ${s.updated} · حذف ${s.removed}` +
+        (s.failed ? ` · ⚠️ خطای بردارسازی ${s.failed}${s.error ? ` (${s.error})` : ''}` : '')
+    );
+    return [`✅ پردازش تکمیل شد (${summaries.length} فایل).`, '', ...lines, ...failureLines].join('\n');
+};
+
+const formatUnparseablePages = (info: { pages: number[]; totalPages: number }): string =>
+    `صفحات ${toPersianDigits(info.pages.join('، '))} از ${toPersianDigits(info.totalPages)} فقط تصویر هستند (بدون لایه متنی) و ایندکس نشدند.`;
+
+const formatReembedOutcome = (job: ReembedJob): string => {
+    const progress = `${toPersianDigits(job.processed || 0)} از ${toPersianDigits(job.total || 0)}`;
+    if (job.status === 'completed') return `✅ بردارسازی مجدد با مدل **${job.targetModel}** تکمیل شد (${toPersianDigits(job.total || 0)} قطعه).`;
+    if (job.status === 'paused') return `⏸️ بردارسازی مجدد در ${progress} متوقف شد. با اجرای دوباره از همین نقطه ادامه می‌یابد.`;
+    return `⚠️ بردارسازی مجدد ناموفق بود (${progress}): ${job.error || 'خطای نامشخص'}${job.lastError ? `\n${job.lastError}` : ''}`;
+};
+
 const categoryLabels: Record<string, string> = {
     'back_office': 'مدیریت کارگزاری',
     'online_trading': 'معاملات برخط',
@@ -40,7 +81,7 @@ export const useRAGApplication = () => {
     const [currentChatId, setCurrentChatId] = useState<string>('new');
     const [inputText, setInputText] = useState('');
     const [isProcessing, setIsProcessing] = useState(false);
-    const [processingType, setProcessingType] = useState<'file' | 'chat' | 'idle'>('idle');
+    const [processingType, setProcessingType] = useState<'file' | 'chat' | 'reembed' | 'idle'>('idle');
     const [isDbLoading, setIsDbLoading] = useState(true);
     const [processingStatus, setProcessingStatus] = useState<string>('');
     
@@ -52,10 +93,17 @@ export const useRAGApplication = () => {
     const [lastBenchmarkScore, setLastBenchmarkScore] = useState<number | null>(null);
     const [fineTuningCount, setFineTuningCount] = useState(0); 
     const [serverChunkCount, setServerChunkCount] = useState(0);
+    const [indexInfo, setIndexInfo] = useState<IndexInfo | null>(null);
+    const [reembedJob, setReembedJob] = useState<ReembedJob | null>(null);
+    const [ingestProgress, setIngestProgress] = useState<IngestProgress | null>(null);
     const [useWebSearch, setUseWebSearch] = useState(false);
+    const [searchFilters, setSearchFilters] = useState<MetadataFilter[]>([]);
 
     const isDbInitialized = useRef(false);
     const abortControllerRef = useRef<AbortController | null>(null);
+    const generationAbortRef = useRef<AbortController | null>(null);
+    // The full chunk list is only downloaded when a view needs it (wiki, graph, benchmark, filter suggestions)
+    const chunksLoadRef = useRef<Promise<void> | null>(null);
 
     useEffect(() => {
         const checkHealth = async () => {
@@ -93,6 +141,8 @@ export const useRAGApplication = () => {
     }, []);
 
     useEffect(() => {
+        // Persist once the answer is complete, not on every streamed token
+        if (messages.some(m => m.isStreaming)) return;
         if (messages.length > 1 && currentChatId) {
             const firstUserMsg = messages.find(m => m.role === 'user');
             const title = firstUserMsg ? firstUserMsg.content.substring(0, 30) + (firstUserMsg.content.length > 30 ? '...' : '') : 'گفتگوی جدید';
@@ -126,14 +176,13 @@ export const useRAGApplication = () => {
                 const data = await res.json();
                 const count = data.count || 0;
                 setServerChunkCount(count);
+                setIndexInfo(data);
                 setIsServerOnline(true);
 
-                // Only sync if we have counts but local is empty (initial load)
-                // Or if counts differ significantly (optional, not implemented to avoid spam)
-                if (count > 0 && customChunks.length === 0) {
-                    console.log(`[Client] Server has ${count} chunks, syncing...`);
-                    syncChunksFromServer(settings.serverUrl);
-                }
+                // A re-embed job started earlier (e.g. before a page reload) is still running
+                if (data.reembed?.status === 'running' && !isProcessing) followReembedJob(data.reembed);
+
+                await refreshDocuments();
             } else {
                 setIsServerOnline(false);
             }
@@ -142,7 +191,7 @@ export const useRAGApplication = () => {
         }
     };
 
-    const syncChunksFromServer = async (serverUrl: string) => {
+    const syncChunksFromServer = async (serverUrl: string): Promise<boolean> => {
         try {
             const res = await fetch(`${serverUrl}/chunks`);
             if (res.ok) {
@@ -153,18 +202,16 @@ export const useRAGApplication = () => {
                     const mappedChunks: KnowledgeChunk[] = rows.map((r: any) => ({
                         id: r.id,
                         content: r.content,
-                        searchContent: r.content, 
+                        searchContent: r.search_content || r.content, 
                         embedding: [], 
                         metadata: typeof r.metadata === 'string' ? JSON.parse(r.metadata) : (r.metadata || {}),
                         source: typeof r.source_json === 'string' ? JSON.parse(r.source_json) : (r.source_json || { id: 'unknown', title: 'unknown' }),
                         createdAt: r.created_at
                     }));
                     
-                    if (mappedChunks.length > 0) {
-                        setCustomChunks(mappedChunks);
-                        updateDocsList(mappedChunks);
-                        console.log(`[Client] State updated with ${mappedChunks.length} chunks.`);
-                    }
+                    setCustomChunks(mappedChunks);
+                    console.log(`[Client] State updated with ${mappedChunks.length} chunks.`);
+                    return true;
                 } else {
                     console.error("[Client] Sync response is not an array:", rows);
                 }
@@ -174,16 +221,26 @@ export const useRAGApplication = () => {
         } catch(e) {
             console.error("Sync error (non-fatal):", e);
         }
+        return false;
+    };
+
+    /** Downloads all chunks from the server once; later calls reuse the first download. */
+    const ensureChunksLoaded = () => {
+        if (!chunksLoadRef.current) {
+            // A failed download is retried the next time a view asks for the chunks
+            chunksLoadRef.current = syncChunksFromServer(getSettings().serverUrl).then(ok => {
+                if (!ok) chunksLoadRef.current = null;
+            });
+        }
+        return chunksLoadRef.current;
     };
 
-    const updateDocsList = (chunks: KnowledgeChunk[]) => {
-        const files = new Set<string>();
-        chunks.forEach(c => { if(c.source?.id) files.add(c.source.id); });
-        setDocsList(Array.from(files).map(f => ({ 
-            name: f, 
-            status: 'indexed', 
-            chunks: chunks.filter(c => c.source.id === f).length 
-        })));
+    const refreshDocuments = async () => {
+        try {
+            setDocsList(await listDocuments());
+        } catch (e) {
+            console.error("Failed to load document list", e);
+        }
     };
 
     const loadHistory = async () => {
@@ -216,10 +273,11 @@ export const useRAGApplication = () => {
                         role: 'assistant',
                         content: '❌ **خطای اتصال به سرور مرکزی**\n\nلطفاً از اجرای فایل `server/index.js` اطمینان حاصل کنید.',
                         timestamp: new Date(),
-                        isThinking: false
+                        isThinking: false,
+                        isError: true
                      });
                  } else {
-                     return prev.map(m => m.id === responseMsgId ? { ...m, content: '❌ خطا: سرور مرکزی در دسترس نیست.', isThinking: false } : m);
+                     return prev.map(m => m.id === responseMsgId ? { ...m, content: '❌ خطا: سرور مرکزی در دسترس نیست.', isThinking: false, isError: true } : m);
                  }
                  return newMsgs;
              });
@@ -241,8 +299,10 @@ export const useRAGApplication = () => {
             }]);
         }
 
+        generationAbortRef.current = new AbortController();
         try {
-            const history = messages.filter(m => !m.isThinking && m.id !== 'init-1').slice(-6);
+            // Clarification prompts are UI turns, not conversation content
+            const history = messages.filter(m => !m.isThinking && m.id !== 'init-1' && !m.options?.length).slice(-6);
             const response = await processQuery(
                 queryText, 
                 [], 
@@ -259,7 +319,16 @@ export const useRAGApplication = () => {
                 useWebSearch,
                 history,
                 undefined,
-                false
+                false,
+                (partialText: string) => {
+                    setMessages(prev => prev.map(msg => 
+                        msg.id === responseMsgId 
+                            ? { ...msg, content: partialText, isThinking: false, isStreaming: true } 
+                            : msg
+                    ));
+                },
+                generationAbortRef.current.signal,
+                searchFilters
             );
 
             if (response.error === "OLLAMA_CONNECTION_REFUSED") {
@@ -268,7 +337,9 @@ export const useRAGApplication = () => {
                         return {
                             ...msg,
                             content: `❌ **خطای اتصال به مدل هوش مصنوعی**\n\nارتباط سرور با Ollama برقرار نشد.`,
-                            isThinking: false
+                            isError: true,
+                            isThinking: false,
+                            isStreaming: false
                         };
                     }
                     return msg;
@@ -278,11 +349,18 @@ export const useRAGApplication = () => {
                     if (msg.id === responseMsgId) {
                         return {
                             ...msg,
-                            content: response.text,
+                            content: response.isPartial 
+                                ? `${response.text}\n\n⏹️ تولید پاسخ توسط کاربر متوقف شد.` 
+                                : response.text,
                             sources: response.sources,
                             options: response.isAmbiguous ? response.options : undefined, 
+                            isError: !!response.error,
+                            isPartial: response.isPartial,
                             debugInfo: response.debugInfo,
+                            retrievedContext: response.context,
+                            model: response.model,
                             isThinking: false,
+                            isStreaming: false,
                             pipelineData: { 
                                 ...msg.pipelineData,
                                 step: 'generating', 
@@ -298,11 +376,12 @@ export const useRAGApplication = () => {
             console.error("Error processing query", error);
             setMessages(prev => prev.map(msg => {
                 if (msg.id === responseMsgId) {
-                    return { ...msg, isThinking: false, content: '❌ خطای غیرمنتظره در پردازش.' };
+                    return { ...msg, isThinking: false, isStreaming: false, content: '❌ خطای غیرمنتظره در پردازش.', isError: true };
                 }
                 return msg;
             }));
         } finally {
+            generationAbortRef.current = null;
             setIsProcessing(false);
             setProcessingType('idle');
             setProcessingStatus('');
@@ -334,14 +413,87 @@ export const useRAGApplication = () => {
         await performQuery(userMsg.content, undefined, thinkingMsgId);
     };
 
-    const handleOptionSelect = async (selectedCategory: string) => { /* ... */ };
-    const handleFeedback = async (messageId: string, rating: number) => { /* ... */ };
-    const handleExportFineTuning = async () => { /* ... */ };
-    const handleCancelProcessing = () => { /* ... */ };
+    const handleOptionSelect = async (selectedCategory: string) => {
+        if (isProcessing) return;
+
+        // Options are only clickable on the latest unanswered clarification
+        const promptIndex = messages.map(m => !!m.options?.length && !m.selectedOption).lastIndexOf(true);
+        if (promptIndex === -1) return;
+        const promptMsg = messages[promptIndex];
+        const originalQuestion = messages.slice(0, promptIndex).reverse().find(m => m.role === 'user');
+        if (!originalQuestion) return;
+
+        const thinkingMsgId = 'msg-a-' + Date.now();
+        setMessages(prev => [
+            ...prev.map(m => m.id === promptMsg.id ? { ...m, selectedOption: selectedCategory } : m),
+            { id: thinkingMsgId, role: 'assistant', content: '', timestamp: new Date(), isThinking: true }
+        ]);
+        await performQuery(originalQuestion.content, selectedCategory, thinkingMsgId);
+    };
+    const handleFeedback = async (messageId: string, rating: number) => {
+        const msgIndex = messages.findIndex(m => m.id === messageId);
+        const answer = messages[msgIndex];
+        if (!answer || answer.role !== 'assistant' || !answer.content.trim()) return;
+        // Clarification prompts, errors and stopped answers are not answers the model should learn
+        if (answer.options?.length || answer.isError || answer.isPartial) return;
+
+        const question = messages.slice(0, msgIndex).reverse().find(m => m.role === 'user');
+        if (!question) return;
+
+        setMessages(prev => prev.map(m => m.id === messageId ? { ...m, feedback: rating } : m));
+
+        const record: FineTuningRecord = {
+            id: `ft-${messageId}`,
+            prompt: question.content,
+            response: answer.content,
+            context: answer.retrievedContext || '',
+            score: rating,
+            sourceIds: (answer.sources || []).map(s => s.id),
+            model: answer.model || getSettings().chatModel
+        };
+
+        try {
+            await saveFineTuningRecord(record);
+            await updateFineTuningCount();
+        } catch (e) {
+            console.error("Failed to save feedback", e);
+        }
+    };
+
+    const handleExportFineTuning = async (includeRejected = false) => {
+        try {
+            const jsonl = await exportFineTuningDataset(includeRejected);
+            if (!jsonl) {
+                alert("هیچ نمونه‌ای برای خروجی وجود ندارد.");
+                return;
+            }
+            const blob = new Blob([jsonl], { type: 'application/jsonl;charset=utf-8' });
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `fine_tuning_dataset_${new Date().toISOString().slice(0, 10)}.jsonl`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (e) {
+            console.error("Fine-tuning export failed", e);
+        }
+    };
+    const handleCancelProcessing = () => {
+        if (processingType === 'reembed') {
+            stopReembed().catch(e => alert("خطا در توقف بردارسازی مجدد: " + e.message));
+            return;
+        }
+        // Cancels the server job of the file being embedded; files already indexed stay indexed
+        abortControllerRef.current?.abort();
+        setProcessingStatus('در حال توقف...');
+    };
+    const handleStopGeneration = () => { generationAbortRef.current?.abort(); };
     const handleTicketFileSelected = async (fileList: FileList) => { /* ... */ };
     const handleClearTickets = async () => { /* ... */ };
     
-    const handleFilesSelected = async (fileList: FileList) => {
+    const handleFilesSelected = async (fileList: FileList, chunkingStrategy: ChunkingStrategy = 'auto') => {
         if (!isServerOnline) {
             alert("خطا: سرور مرکزی در دسترس نیست.");
             return;
@@ -351,36 +503,192 @@ export const useRAGApplication = () => {
         setProcessingStatus('در حال آنالیز فایل‌ها...');
         
         abortControllerRef.current = new AbortController();
+        const summaries: IngestSummary[] = [];
+        const failures: { fileName: string; error: string }[] = [];
+        const warnings: { fileName: string; warning: string }[] = [];
+        setIngestProgress({ filesDone: 0, filesTotal: Array.from(fileList).filter(isParsableFile).length, embedded: 0, total: 0, failed: 0 });
         try {
             const extractedChunks = await parseFiles(
                 fileList, 
                 (fileName, step, info) => {
-                    const statusMsg = info ? `${step === 'reading' ? 'آنالیز' : 'ارسال به سرور'}: ${fileName}` : `${fileName}...`;
-                    setProcessingStatus(statusMsg);
+                    if (step === 'complete' && info?.summary) summaries.push(...info.summary);
+                    if (step === 'error') failures.push({ fileName, error: String(info) });
+                    if (step === 'unparseable') warnings.push({ fileName, warning: formatUnparseablePages(info) });
+                    trackIngestProgress(fileName, step, info);
                 },
-                abortControllerRef.current.signal 
+                abortControllerRef.current.signal,
+                undefined,
+                chunkingStrategy
             );
             
             if (extractedChunks.length > 0) {
-                // IMPORTANT: Append to local state immediately so UI updates
-                // The parseFiles function now returns the chunks (without embeddings) for this purpose
-                setCustomChunks(prev => [...prev, ...extractedChunks]);
-                updateDocsList([...customChunks, ...extractedChunks]);
-                setServerChunkCount(prev => prev + extractedChunks.length);
+                // IMPORTANT: Update local state immediately so UI updates.
+                // Uploads are upserts, so a re-uploaded file replaces its previous chunks instead of duplicating them.
+                const uploadedSources = new Set(extractedChunks.map(c => c.source.id));
+                setCustomChunks(prev => [...prev.filter(c => !uploadedSources.has(c.source?.id)), ...extractedChunks]);
+                await loadServerStats();
+                await refreshDocuments();
+            }
+
+            setMessages(prev => [...prev, {
+                id: Date.now().toString(),
+                role: 'system',
+                content: formatIngestSummary(summaries, extractedChunks.length, failures, warnings),
+                timestamp: new Date()
+            }]);
+        } catch (e: any) {
+            if (e.message === 'ABORTED') {
+                // The cancelled file left the index untouched
+                setMessages(prev => [...prev, {
+                    id: Date.now().toString(),
+                    role: 'system',
+                    content: `⏹️ بارگذاری متوقف شد. فایل در حال پردازش به ایندکس اضافه نشد.${summaries.length > 0 ? '\n\n' + formatIngestSummary(summaries, 0, failures, warnings) : ''}`,
+                    timestamp: new Date()
+                }]);
+                // Files finished before the cancel are in the index: the cached chunks are stale and are
+                // downloaded again by the next view that needs them; stats also refresh the document list
+                chunksLoadRef.current = null;
+                await loadServerStats();
+            } else {
+                alert("خطا در پردازش فایل‌ها: " + e.message);
             }
+        } finally {
+            setIsProcessing(false);
+            setProcessingType('idle');
+            setProcessingStatus('');
+            setIngestProgress(null);
+        }
+    };
 
+    /**
+     * Mirrors parseFiles progress (including the server job's embedded/total counts) into the overlay.
+     */
+    const trackIngestProgress = (fileName: string, step: ParseStep, info?: any) => {
+        const job: IngestJob | null = step === 'embedding' && typeof info === 'object' ? info : null;
+        setIngestProgress(prev => prev && {
+            ...prev,
+            currentFile: fileName,
+            filesDone: step === 'complete' || step === 'error' ? prev.filesDone + 1 : prev.filesDone,
+            embedded: job ? job.embedded : step === 'reading' ? 0 : prev.embedded,
+            total: job ? job.total : step === 'reading' ? 0 : prev.total,
+            failed: job ? job.failed : step === 'reading' ? 0 : prev.failed
+        });
+        if (job) {
+            setProcessingStatus(job.status === 'queued'
+                ? `در صف سرور: ${fileName}`
+                : `بردارسازی ${fileName}: ${toPersianDigits(job.embedded)} از ${toPersianDigits(job.total)}`);
+        } else if (step === 'unparseable') {
+            setProcessingStatus(`${fileName}: ${formatUnparseablePages(info)}`);
+        } else {
+            setProcessingStatus(info ? `${step === 'reading' ? 'آنالیز' : 'ارسال به سرور'}: ${fileName}` : `${fileName}...`);
+        }
+    };
+
+    /**
+     * Polls the server re-embed job until it stops, mirroring its progress in the processing overlay.
+     */
+    const followReembedJob = async (initial: ReembedJob) => {
+        setIsProcessing(true);
+        setProcessingType('reembed');
+        let job = initial;
+        try {
+            while (job.status === 'running') {
+                setReembedJob(job);
+                setProcessingStatus(`بردارسازی مجدد (${job.targetModel}): ${toPersianDigits(job.processed || 0)} از ${toPersianDigits(job.total || 0)}`);
+                await new Promise(resolve => setTimeout(resolve, REEMBED_POLL_MS));
+                job = await getReembedJob();
+            }
+            setReembedJob(job);
             setMessages(prev => [...prev, {
                 id: Date.now().toString(),
                 role: 'system',
-                content: `✅ پردازش تکمیل شد. ${extractedChunks.length} قطعه به سرور اضافه شد.`,
+                content: formatReembedOutcome(job),
                 timestamp: new Date()
             }]);
+            await loadServerStats();
+        } catch (e: any) {
+            alert("خطا در پیگیری بردارسازی مجدد: " + e.message);
+        } finally {
+            setIsProcessing(false);
+            setProcessingType('idle');
+            setProcessingStatus('');
+        }
+    };
+
+    const handleStartReembed = async () => {
+        if (!isServerOnline) {
+            alert("خطا: سرور مرکزی در دسترس نیست.");
+            return;
+        }
+        const model = getSettings().embeddingModel;
+        if (!confirm(`تمام بردارهای پایگاه دانش با مدل «${model}» بازسازی می‌شوند. تا پایان کار جستجو در دسترس نیست (ایندکس فعلی با مدل قبلی ساخته شده است) و بارگذاری سند غیرفعال است. ادامه می‌دهید؟`)) return;
+        try {
+            const job = await startReembed();
+            await followReembedJob(job);
+        } catch (e: any) {
+            alert("خطا در شروع بردارسازی مجدد: " + e.message);
+        }
+    };
+
+    const handleMigrateSchema = async () => {
+        if (!confirm('ساختار جدول پایگاه دانش به نسخه جدید ارتقا می‌یابد. پیش از آن از تمام ردیف‌ها نسخه پشتیبان گرفته می‌شود. ادامه می‌دهید؟')) return;
+        try {
+            const result = await migrateSchema();
+            alert(`ارتقای ساختار انجام شد (${toPersianDigits(result.rows)} ردیف).${result.backupFile ? `\nنسخه پشتیبان: ${result.backupFile}` : ''}`);
+            await loadServerStats();
+        } catch (e: any) {
+            alert("خطا در ارتقای ساختار پایگاه دانش: " + e.message);
+        }
+    };
+
+    const handleDeleteDocument = async (sourceId: string) => {
+        if (!confirm(`سند «${sourceId}» و تمام قطعات آن از پایگاه دانش حذف شود؟`)) return;
+        try {
+            const deleted = await deleteDocument(sourceId);
+            setCustomChunks(prev => prev.filter(c => c.source?.id !== sourceId));
+            setServerChunkCount(prev => Math.max(0, prev - deleted));
+            await refreshDocuments();
+        } catch (e: any) {
+            alert("خطا در حذف سند: " + e.message);
+        }
+    };
+
+    const handleReindexDocument = async (sourceId: string, fileList: FileList) => {
+        if (!isServerOnline) {
+            alert("خطا: سرور مرکزی در دسترس نیست.");
+            return;
+        }
+        setIsProcessing(true);
+        setProcessingType('file');
+        setProcessingStatus(`بازسازی ایندکس: ${sourceId}...`);
+
+        abortControllerRef.current = new AbortController();
+        try {
+            let failure = '';
+            setIngestProgress({ filesDone: 0, filesTotal: Array.from(fileList).filter(isParsableFile).length, embedded: 0, total: 0, failed: 0 });
+            const newChunks = await parseFiles(
+                fileList,
+                (fileName, step, info) => {
+                    if (step === 'error') failure = String(info);
+                    trackIngestProgress(fileName, step, info);
+                },
+                abortControllerRef.current.signal,
+                sourceId
+            );
+            // parseFiles reports per-file failures through onProgress and returns no chunks for them
+            if (newChunks.length === 0) throw new Error(failure || "هیچ قطعه‌ای از فایل انتخابی استخراج یا ایندکس نشد.");
+            const replacedIds = new Set([sourceId, ...newChunks.map(c => c.source.id)]);
+            setCustomChunks(prev => [...prev.filter(c => !replacedIds.has(c.source?.id)), ...newChunks]);
+            await loadServerStats();
+            await refreshDocuments();
         } catch (e: any) {
-            alert("خطا در پردازش فایل‌ها: " + e.message);
+            // A cancelled re-index leaves the previous version of the document in place
+            if (e.message !== 'ABORTED') alert("خطا در بازسازی ایندکس سند: " + e.message);
         } finally {
             setIsProcessing(false);
             setProcessingType('idle');
             setProcessingStatus('');
+            setIngestProgress(null);
         }
     };
 
@@ -412,12 +720,17 @@ export const useRAGApplication = () => {
             processingStatus,
             customChunks, 
             ticketChunks,
+            serverChunkCount,
             docsList,
             isOllamaOnline,
             isServerOnline, 
             useWebSearch,
+            searchFilters,
             lastBenchmarkScore,
-            fineTuningCount 
+            fineTuningCount,
+            indexInfo,
+            reembedJob,
+            ingestProgress
         },
         actions: {
             setInputText,
@@ -427,13 +740,20 @@ export const useRAGApplication = () => {
             handleTicketFileSelected,
             handleClearTickets,
             handleCancelProcessing,
+            handleStopGeneration,
             handleClearDB,
+            handleDeleteDocument,
+            handleReindexDocument,
+            handleStartReembed,
+            handleMigrateSchema,
             handleExportDB,
             handleImportDB,
             handleNewChat,
             handleSelectConversation,
             handleDeleteConversation,
             setUseWebSearch,
+            setSearchFilters,
+            ensureChunksLoaded,
             handleFeedback,       
             handleExportFineTuning 
         }
@@ -0,0 +1,183 @@
+// --- BM25 KEYWORD INDEX ---
+// In-memory inverted index over chunk content with corpus-level IDF.
+// Built at ingestion time and rebuilt from LanceDB on server start.
+
+const K1 = 1.2;
+const B = 0.75;
+
+const PERSIAN_STOP_WORDS = new Set([
+    'و', 'در', 'به', 'از', 'که', 'این', 'آن', 'با', 'را', 'برای', 'تا', 'یا', 'هم', 'نیز',
+    'است', 'بود', 'شد', 'شود', 'میشود', 'می', 'های', 'ها', 'یک', 'هر', 'اگر', 'چه', 'چطور',
+    'چگونه', 'کجا', 'باید', 'کرد', 'کند', 'کنید', 'کنم', 'دارد', 'داره', 'ی', 'بر', 'روی',
+    'بین', 'پس', 'اما', 'ولی', 'همه', 'خود', 'نمی', 'هست', 'نیست', 'شده', 'the', 'a', 'an',
+    'of', 'to', 'in', 'and', 'or', 'is', 'for', 'on'
+]);
+
+/**
+ * Normalizes Persian/Arabic text before tokenization:
+ * unifies ی/ک, converts Persian/Arabic digits to Latin, drops diacritics and tatweel,
+ * and removes ZWNJ so "می‌شود" and "میشود" produce the same token.
+ */
+const normalizePersian = (text) => {
+    return (text || '')
+        .toLowerCase()
+        .replace(/[يى]/g, 'ی')
+        .replace(/ك/g, 'ک')
+        .replace(/[ۀة]/g, 'ه')
+        .replace(/[أإآ]/g, 'ا')
+        .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0))
+        .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+        .replace(/[\u064B-\u065F\u0670\u0640]/g, '')
+        .replace(/[\u200C\u200D\u200E\u200F]/g, '');
+};
+
+/**
+ * Light suffix stripping for common Persian plural/ezafe endings.
+ * Only applied to longer tokens so short stems and codes stay intact.
+ */
+const stemPersian = (token) => {
+    if (!/[\u0600-\u06FF]/.test(token) || token.length <= 4) return token;
+    for (const suffix of ['هایی', 'های', 'ها']) {
+        if (token.endsWith(suffix) && token.length - suffix.length >= 3) {
+            return token.slice(0, -suffix.length);
+        }
+    }
+    return token;
+};
+
+/**
+ * Splits text into normalized index terms.
+ * Keeps Persian words, Latin words and alphanumeric codes (e.g. "PRX12345", "10061").
+ */
+const tokenize = (text) => {
+    const tokens = normalizePersian(text).match(/[\u0600-\u06FFa-z0-9]+/g) || [];
+    return tokens
+        .filter(t => (t.length > 1 || /\d/.test(t)) && !PERSIAN_STOP_WORDS.has(t))
+        .map(stemPersian);
+};
+
+class BM25Index {
+    constructor() {
+        this.clear();
+    }
+
+    /** Removes every document from the index. */
+    clear() {
+        this.postings = new Map();   // term -> Map<docId, termFrequency>
+        this.docLengths = new Map(); // docId -> token count
+        this.docTerms = new Map();   // docId -> distinct terms, so removal only touches the doc's own postings
+        this.totalLength = 0;
+    }
+
+    get size() {
+        return this.docLengths.size;
+    }
+
+    /**
+     * Adds (or replaces) documents in the index.
+     * @param {{id: string, content: string}[]} docs
+     */
+    add(docs) {
+        for (const doc of docs) {
+            if (this.docLengths.has(doc.id)) this.remove([doc.id]);
+
+            const tokens = tokenize(doc.content);
+            const freqs = new Map();
+            tokens.forEach(t => freqs.set(t, (freqs.get(t) || 0) + 1));
+
+            freqs.forEach((tf, term) => {
+                if (!this.postings.has(term)) this.postings.set(term, new Map());
+                this.postings.get(term).set(doc.id, tf);
+            });
+            this.docLengths.set(doc.id, tokens.length);
+            this.docTerms.set(doc.id, [...freqs.keys()]);
+            this.totalLength += tokens.length;
+        }
+    }
+
+    /**
+     * Removes documents by ID.
+     * @param {string[]} ids
+     */
+    remove(ids) {
+        for (const id of new Set(ids)) {
+            const len = this.docLengths.get(id);
+            if (len === undefined) continue;
+            this.totalLength -= len;
+            this.docLengths.delete(id);
+            for (const term of this.docTerms.get(id)) {
+                const docs = this.postings.get(term);
+                docs.delete(id);
+                if (docs.size === 0) this.postings.delete(term);
+            }
+            this.docTerms.delete(id);
+        }
+    }
+
+    /**
+     * IDs of the documents that contain every token of `term` as a whole token (exact lookup, no scoring).
+     * Used for identifiers: "10061" matches "10061" but never "100612", "ORA-01017" needs both "ora" and "01017".
+     * @param {string} term
+     * @returns {string[]}
+     */
+    lookup(term) {
+        const postings = [...new Set(tokenize(term))].map(t => this.postings.get(t));
+        if (postings.length === 0 || postings.some(p => !p)) return [];
+        const [first, ...rest] = postings;
+        return [...first.keys()].filter(id => rest.every(p => p.has(id)));
+    }
+
+    /**
+     * Index terms with their document frequency, most frequent first.
+     * @param {number} limit
+     * @returns {[string, number][]}
+     */
+    vocabulary(limit = Infinity) {
+        return [...this.postings]
+            .map(([term, docs]) => [term, docs.size])
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, limit);
+    }
+
+    /**
+     * Inverse document frequency (BM25+ style, never negative).
+     */
+    idf(term) {
+        const n = this.docLengths.size;
+        const df = this.postings.get(term)?.size || 0;
+        return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    }
+
+    /**
+     * Scores the whole corpus against a query and returns the best matches.
+     * @param {string} query
+     * @param {number} limit
+     * @returns {{id: string, score: number}[]} Sorted by descending BM25 score.
+     */
+    search(query, limit = 50) {
+        const n = this.docLengths.size;
+        if (n === 0) return [];
+
+        const avgLength = this.totalLength / n || 1;
+        const terms = [...new Set(tokenize(query))];
+        const scores = new Map();
+
+        for (const term of terms) {
+            const docs = this.postings.get(term);
+            if (!docs) continue;
+            const idf = this.idf(term);
+            docs.forEach((tf, id) => {
+                const len = this.docLengths.get(id);
+                const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * len / avgLength));
+                scores.set(id, (scores.get(id) || 0) + idf * norm);
+            });
+        }
+
+        return [...scores.entries()]
+            .map(([id, score]) => ({ id, score }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+}
+
+module.exports = { BM25Index, tokenize, normalizePersian };
@@ -0,0 +1,177 @@
+// --- EMBEDDING CACHE ---
+// Persistent LRU cache of embedding vectors keyed by (model, normalized text hash).
+// Re-ingesting unchanged text, re-embedding after a settings tweak, or embedding the same
+// benchmark texts again is served from here instead of calling the model server.
+
+const fs = require('fs');
+const readline = require('readline');
+const crypto = require('crypto');
+
+/** Whitespace/Unicode-insensitive form of the text used for the cache key. */
+const normalizeForKey = (text) => String(text || '').normalize('NFC').replace(/\s+/g, ' ').trim();
+
+const cacheKey = (model, text) =>
+    crypto.createHash('sha256').update(`${model}\u0000${normalizeForKey(text)}`).digest('hex');
+
+// Vectors are stored as base64 Float32 (about a third of the size of JSON number arrays)
+const encodeVector = (vector) => Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+// Copied out of the decoded buffer, which is not guaranteed to be 4-byte aligned
+const decodeVector = (encoded) => new Float32Array(new Uint8Array(Buffer.from(encoded, 'base64')).buffer);
+
+/** Log lines written per chunk while compacting, so the event loop is released in between. */
+const COMPACT_CHUNK_LINES = 500;
+
+class EmbeddingCache {
+    /**
+     * The cache is persisted as an append-only log (one JSON array per line): new vectors are
+     * appended in the background, and the log is rewritten from memory once it holds twice as
+     * many lines as the cache has entries. The order of reads is not persisted.
+     * @param {string} file Log file the cache is persisted to
+     * @param {number} maxEntries Least recently used entries beyond this are evicted
+     * @param {number} saveDelayMs Appends are debounced so a large ingestion writes once per interval, not per vector
+     */
+    constructor(file, maxEntries, saveDelayMs = 5000) {
+        this.file = file;
+        this.maxEntries = maxEntries;
+        this.saveDelayMs = saveDelayMs;
+        this.entries = new Map(); // key -> { model, vector: Float32Array }; Map order = recency (oldest first)
+        this.pending = [];        // Log lines not yet written
+        this.logLines = 0;        // Lines in the log file, to decide when to compact
+        this.writing = Promise.resolve(); // Appends and compactions run one after another
+        this.saveTimer = null;
+        this.resetStats();
+    }
+
+    resetStats() {
+        this.hits = 0;
+        this.misses = 0;
+        this.evictions = 0;
+    }
+
+    /** Replays the log. Corrupt lines (e.g. a write cut off by a crash) are skipped. */
+    async load() {
+        try {
+            if (!fs.existsSync(this.file)) return;
+            const lines = readline.createInterface({ input: fs.createReadStream(this.file, 'utf8'), crlfDelay: Infinity });
+            for await (const line of lines) {
+                if (!line) continue;
+                this.logLines++;
+                try {
+                    const [op, key, model, encoded] = JSON.parse(line);
+                    if (op === 'clear') this.entries.clear();
+                    else if (op === 'set') {
+                        this.entries.delete(key);
+                        this.entries.set(key, { model, vector: decodeVector(encoded) });
+                    }
+                } catch {
+                    // Skip the damaged line
+                }
+            }
+            this.evict();
+            console.log(`🗃️ [Embedding Cache] Loaded ${this.entries.size} vectors.`);
+        } catch (e) {
+            console.warn(`⚠️ [Embedding Cache] Could not load ${this.file}: ${e.message}. Starting empty.`);
+            this.entries.clear();
+        }
+    }
+
+    /** @returns {number[]|null} The cached vector, marked as most recently used. */
+    get(model, text) {
+        const key = cacheKey(model, text);
+        const entry = this.entries.get(key);
+        if (!entry) {
+            this.misses++;
+            return null;
+        }
+        this.hits++;
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return Array.from(entry.vector);
+    }
+
+    set(model, text, vector) {
+        const key = cacheKey(model, text);
+        const entry = { model, vector: Float32Array.from(vector) };
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.evict();
+        this.pending.push(JSON.stringify(['set', key, model, encodeVector(entry.vector)]));
+        this.scheduleSave();
+    }
+
+    evict() {
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value);
+            this.evictions++;
+        }
+    }
+
+    clear() {
+        this.entries.clear();
+        this.resetStats();
+        this.pending.push(JSON.stringify(['clear']));
+        this.scheduleSave();
+    }
+
+    stats() {
+        const lookups = this.hits + this.misses;
+        const models = {};
+        this.entries.forEach(e => { models[e.model] = (models[e.model] || 0) + 1; });
+        return {
+            entries: this.entries.size,
+            maxEntries: this.maxEntries,
+            hits: this.hits,
+            misses: this.misses,
+            hitRate: lookups > 0 ? this.hits / lookups : 0,
+            evictions: this.evictions,
+            models
+        };
+    }
+
+    scheduleSave() {
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.writing = this.writing.then(() => this.save());
+        }, this.saveDelayMs);
+    }
+
+    /** Appends the pending lines, then compacts the log if evictions and overwrites have bloated it. */
+    async save() {
+        try {
+            if (this.pending.length > 0) {
+                const lines = this.pending;
+                this.pending = [];
+                await fs.promises.appendFile(this.file, lines.join('\n') + '\n');
+                this.logLines += lines.length;
+            }
+            if (this.logLines > Math.max(2 * this.entries.size, this.maxEntries)) await this.compact();
+        } catch (e) {
+            console.warn(`⚠️ [Embedding Cache] Save failed: ${e.message}`);
+        }
+    }
+
+    /**
+     * Rewrites the log with only the live entries, in chunks. Writes to a temp file and renames it,
+     * so a crash mid-write never corrupts the cache. Vectors added meanwhile stay pending and are
+     * appended to the new log afterwards.
+     */
+    async compact() {
+        const snapshot = [...this.entries];
+        const tmp = `${this.file}.tmp`;
+        const handle = await fs.promises.open(tmp, 'w');
+        try {
+            for (let i = 0; i < snapshot.length; i += COMPACT_CHUNK_LINES) {
+                const chunk = snapshot.slice(i, i + COMPACT_CHUNK_LINES)
+                    .map(([key, e]) => JSON.stringify(['set', key, e.model, encodeVector(e.vector)]) + '\n');
+                await handle.write(chunk.join(''));
+            }
+        } finally {
+            await handle.close();
+        }
+        await fs.promises.rename(tmp, this.file);
+        this.logLines = snapshot.length;
+    }
+}
+
+module.exports = { EmbeddingCache };
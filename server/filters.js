@@ -0,0 +1,157 @@
+// --- METADATA FILTERS ---
+// Chunk metadata is stored as JSON, which LanceDB cannot filter on. The filterable fields are
+// therefore copied into flat columns (schema v3), and search filters are compiled to a SQL
+// predicate that LanceDB applies before the vector search.
+
+class FilterError extends Error {
+    /**
+     * @param {string} message Human-readable explanation, returned to the client as-is
+     * @param {object} filter The offending filter clause
+     */
+    constructor(message, filter) {
+        super(message);
+        this.name = 'FilterError';
+        this.code = 'INVALID_FILTER';
+        this.filter = filter;
+    }
+}
+
+/** Persian/Arabic digits -> Latin, so "۱۴۰۲/۰۵/۰۱" and "1402/05/01" are the same date. */
+const toLatinDigits = (value) => String(value ?? '')
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0))
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660));
+
+/**
+ * Converts a Jalali (Solar Hijri) date to Gregorian.
+ * @returns {[number, number, number]} [year, month, day]
+ */
+function jalaliToGregorian(jy, jm, jd) {
+    jy += 1595;
+    let days = -355668 + 365 * jy + Math.floor(jy / 33) * 8 + Math.floor(((jy % 33) + 3) / 4) + jd
+        + (jm < 7 ? (jm - 1) * 31 : (jm - 7) * 30 + 186);
+    let gy = 400 * Math.floor(days / 146097);
+    days %= 146097;
+    if (days > 36524) {
+        gy += 100 * Math.floor(--days / 36524);
+        days %= 36524;
+        if (days >= 365) days++;
+    }
+    gy += 4 * Math.floor(days / 1461);
+    days %= 1461;
+    if (days > 365) {
+        gy += Math.floor((days - 1) / 365);
+        days = (days - 1) % 365;
+    }
+    let gd = days + 1;
+    const isLeap = (gy % 4 === 0 && gy % 100 !== 0) || gy % 400 === 0;
+    const monthDays = [31, isLeap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+    let gm = 0;
+    while (gm < 11 && gd > monthDays[gm]) gd -= monthDays[gm++];
+    return [gy, gm + 1, gd];
+}
+
+/**
+ * Normalizes a document date to an ISO "YYYY-MM-DD" string, which sorts chronologically.
+ * Years before 1700 are read as Jalali (the ticket exports use "1402/05/01").
+ * @returns {string} '' when the value is not a date
+ */
+const normalizeDate = (value) => {
+    const match = toLatinDigits(value).match(/(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})/);
+    if (!match) return '';
+    let [y, m, d] = match.slice(1).map(Number);
+    if (m < 1 || m > 12 || d < 1 || d > 31) return '';
+    if (y < 1700) [y, m, d] = jalaliToGregorian(y, m, d);
+    return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+/**
+ * Zero-pads every part of a version ("3.2" -> "00003.00002.00000.00000") so that
+ * string comparison orders versions numerically (3.10 after 3.9).
+ * @returns {string} '' when the value has no version number
+ */
+const versionKey = (value) => {
+    const match = toLatinDigits(value).match(/\d+(?:\.\d+)*/);
+    if (!match) return '';
+    const parts = match[0].split('.').slice(0, 4);
+    while (parts.length < 4) parts.push('0');
+    return parts.map(p => p.padStart(5, '0')).join('.');
+};
+
+/** Multi-valued fields are stored delimited on both sides ("|a|b|") so one value can be matched with LIKE. */
+const joinList = (values) => {
+    const items = (values || []).map(v => String(v).toLowerCase().replace(/\|/g, ' ').trim()).filter(Boolean);
+    return items.length > 0 ? `|${items.join('|')}|` : '';
+};
+
+/**
+ * The flat, filterable columns derived from a chunk's metadata.
+ * Missing values are '' rather than null, so LanceDB can infer the column types from any batch.
+ */
+const filterColumns = (metadata = {}) => ({
+    category: String(metadata.category || ''),
+    ticket_id: toLatinDigits(metadata.ticketId).trim(),
+    customer_id: String(metadata.customerId || '').toUpperCase(),
+    software: String(metadata.software || '').toLowerCase(),
+    version_key: versionKey(metadata.version),
+    document_date: normalizeDate(metadata.documentDate),
+    tags: joinList(metadata.tags),
+    symbols: joinList(metadata.symbols)
+});
+
+/** Field name in the search request -> column, allowed operators and value normalization. */
+const FILTER_FIELDS = {
+    category: { column: 'category', ops: ['eq', 'in'], normalize: v => String(v) },
+    ticketId: { column: 'ticket_id', ops: ['eq', 'in'], normalize: v => toLatinDigits(v).trim() },
+    customerId: { column: 'customer_id', ops: ['eq', 'in'], normalize: v => String(v).trim().toUpperCase() },
+    software: { column: 'software', ops: ['eq', 'in'], normalize: v => String(v).trim().toLowerCase() },
+    version: { column: 'version_key', ops: ['eq', 'in', 'gte', 'lte'], normalize: versionKey },
+    documentDate: { column: 'document_date', ops: ['eq', 'gte', 'lte'], normalize: normalizeDate },
+    tags: { column: 'tags', ops: ['contains'], normalize: v => String(v).trim().toLowerCase() },
+    symbols: { column: 'symbols', ops: ['contains'], normalize: v => String(v).trim().toLowerCase() }
+};
+
+const sqlLiteral = (value) => `'${String(value).replace(/'/g, "''")}'`;
+
+/** Escapes LIKE wildcards (and the escape character itself) so the value matches literally. */
+const escapeLike = (value) => value.replace(/[\\%_]/g, '\\$&');
+
+/** Compiles one validated clause to SQL. */
+function compileClause(filter) {
+    const spec = FILTER_FIELDS[filter?.field];
+    if (!spec) throw new FilterError(`Unknown filter field "${filter?.field}".`, filter);
+    if (!spec.ops.includes(filter.op)) {
+        throw new FilterError(`Operator "${filter.op}" is not supported for "${filter.field}" (use ${spec.ops.join(', ')}).`, filter);
+    }
+
+    const rawValues = filter.op === 'in' ? filter.value : [filter.value];
+    if (!Array.isArray(rawValues) || rawValues.length === 0) {
+        throw new FilterError(`Filter on "${filter.field}" needs ${filter.op === 'in' ? 'a non-empty list of values' : 'a value'}.`, filter);
+    }
+    const values = rawValues.map(spec.normalize);
+    if (values.some(v => !v)) throw new FilterError(`Invalid value for "${filter.field}": ${JSON.stringify(filter.value)}.`, filter);
+
+    const { column } = spec;
+    switch (filter.op) {
+        case 'eq': return `${column} = ${sqlLiteral(values[0])}`;
+        case 'in': return `${column} IN (${values.map(sqlLiteral).join(', ')})`;
+        // Rows without the field are stored as '' and must not pass an upper bound
+        case 'gte': return `${column} >= ${sqlLiteral(values[0])}`;
+        case 'lte': return `(${column} <= ${sqlLiteral(values[0])} AND ${column} != '')`;
+        case 'contains': return `${column} LIKE ${sqlLiteral(`%|${escapeLike(values[0].replace(/\|/g, ' '))}|%`)}`;
+    }
+}
+
+/**
+ * Compiles search filters (all of which must match) to a LanceDB SQL predicate.
+ * @param {{field: string, op: 'eq'|'in'|'gte'|'lte'|'contains', value: string|string[]}[]} filters
+ * @returns {string|null} null when there is nothing to filter on
+ * @throws {FilterError} For unknown fields, unsupported operators or unparseable values
+ */
+function compileFilters(filters) {
+    if (filters == null) return null;
+    if (!Array.isArray(filters)) throw new FilterError('filters must be an array of {field, op, value} clauses.', filters);
+    if (filters.length === 0) return null;
+    return filters.map(compileClause).join(' AND ');
+}
+
+module.exports = { FilterError, filterColumns, compileFilters, normalizeDate, versionKey };
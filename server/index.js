@@ -5,6 +5,11 @@ const lancedb = require('@lancedb/lancedb');
 const fetch = require('node-fetch');
 const path = require('path');
 const fs = require('fs');
+const crypto = require('crypto');
+const { BM25Index } = require('./bm25');
+const { EmbeddingCache } = require('./embeddingCache');
+const { FilterError, filterColumns, compileFilters } = require('./filters');
+const { SCHEMA_VERSION, SchemaError, readSchemaState, writeSchemaState, pendingMigrations, inspectTable, assertCompatible, toPlainRow, runMigrations } = require('./schema');
 
 const app = express();
 const PORT = 3001; 
@@ -13,6 +18,19 @@ const PORT = 3001;
 const DEFAULT_OLLAMA_URL = process.env.OLLAMA_URL || 'http://127.0.0.1:11434';
 const DEFAULT_EMBEDDING_MODEL = 'text-embedding-nomic-embed-text-v1.5@q4_k_m'; 
 const DB_PATH = path.join(__dirname, 'data', 'rayan-db');
+const SCHEMA_FILE = path.join(__dirname, 'data', 'schema.json');
+const BACKUP_DIR = path.join(__dirname, 'data', 'backups');
+const REEMBED_TABLE = 'knowledge_chunks_reembed';
+const REEMBED_STATE_FILE = path.join(__dirname, 'data', 'reembed-job.json');
+const REEMBED_BATCH_SIZE = 32;
+const REEMBED_SWAP_BATCH_SIZE = 500; // Rows copied per step when the staging table replaces the live one
+// Embedding throughput (per-request overrides: configuration.embeddingBatchSize / embeddingConcurrency)
+const EMBEDDING_BATCH_SIZE = Number(process.env.EMBEDDING_BATCH_SIZE) || 16;
+const EMBEDDING_CONCURRENCY = Number(process.env.EMBEDDING_CONCURRENCY) || 2;
+const EMBEDDING_MAX_RETRIES = 3;
+const EMBEDDING_RETRY_BASE_MS = 500;
+const EMBEDDING_CACHE_FILE = path.join(__dirname, 'data', 'embedding-cache.ndjson');
+const EMBEDDING_CACHE_MAX_ENTRIES = Number(process.env.EMBEDDING_CACHE_MAX_ENTRIES) || 10000;
 
 app.use(cors());
 app.use(express.json({ limit: '100mb' }));
@@ -20,6 +38,34 @@ app.use(express.json({ limit: '100mb' }));
 // --- DATABASE INIT ---
 let db;
 let table;
+const keywordIndex = new BM25Index();
+const embeddingCache = new EmbeddingCache(EMBEDDING_CACHE_FILE, EMBEDDING_CACHE_MAX_ENTRIES);
+let schemaState = { version: SCHEMA_VERSION };
+let reembedJob = { status: 'idle' };
+let reembedStopRequested = false;
+
+/**
+ * Rebuilds the in-memory BM25 index from every row in LanceDB.
+ * Called on startup so keyword search survives server restarts.
+ */
+async function rebuildKeywordIndex() {
+    keywordIndex.clear();
+    if (!table) return;
+
+    const count = await table.countRows();
+    if (count === 0) return;
+
+    let rows = [];
+    try {
+        rows = await table.query().select(['id', 'content']).limit(count).toArray();
+    } catch (e) {
+        console.warn("⚠️ [BM25] select() query failed, falling back to full rows:", e.message);
+        rows = await table.query().limit(count).toArray();
+    }
+
+    keywordIndex.add(rows.map(r => ({ id: r.id, content: r.content || '' })));
+    console.log(`🔤 [BM25] Keyword index built. Documents: ${keywordIndex.size}`);
+}
 
 async function initDB() {
     const dataDir = path.dirname(DB_PATH);
@@ -40,12 +86,31 @@ async function initDB() {
             table = await db.openTable('knowledge_chunks');
             const count = await table.countRows();
             console.log(`✅ Table "knowledge_chunks" loaded. Rows: ${count}`);
+
+            const hadSchemaFile = fs.existsSync(SCHEMA_FILE);
+            schemaState = readSchemaState(SCHEMA_FILE, true);
+            if (!hadSchemaFile) writeSchemaState(SCHEMA_FILE, schemaState);
+            if (schemaState.version !== SCHEMA_VERSION) {
+                console.warn(`⚠️ [Schema] Table is v${schemaState.version}, server expects v${SCHEMA_VERSION}. Writes are blocked until POST /api/schema/migrate is confirmed.`);
+            }
+            if (!schemaState.vectorDimension && count > 0) {
+                schemaState.vectorDimension = (await inspectTable(table)).vectorDimension;
+            }
+            if (schemaState.embeddingModel) {
+                console.log(`🧬 [Schema] Index embedded with "${schemaState.embeddingModel}" (${schemaState.vectorDimension || '?'} dims).`);
+            } else {
+                console.warn('⚠️ [Schema] The embedding model of this index is unknown. Re-embed it (POST /api/reembed) to record the model.');
+            }
+            await rebuildKeywordIndex();
         } else {
+            schemaState = { version: SCHEMA_VERSION };
             console.log('ℹ️ Table "knowledge_chunks" does not exist yet. It will be created on ingestion.');
         }
     } catch (e) {
         console.error('⚠️ DB Init Error:', e);
     }
+
+    reembedJob = loadReembedJob();
 }
 
 // --- HELPER FUNCTIONS ---
@@ -58,170 +123,720 @@ function getEmbeddingEndpoint(baseUrl) {
     return `${cleanUrl}/api/embeddings`; 
 }
 
-async function getEmbedding(text, config = {}) {
-    const baseUrl = config.ollamaBaseUrl || DEFAULT_OLLAMA_URL;
-    const model = config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
-    const endpoint = getEmbeddingEndpoint(baseUrl);
+const resolveEmbeddingModel = (config = {}) => config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
 
-    const safeText = text.replace(/[\u0000-\u001F]/g, "");
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
 
-    try {
-        let body;
-        if (baseUrl.endsWith('/v1')) {
-            body = { model: model, input: safeText };
-        } else {
-            body = { model: model, prompt: safeText };
+/** Reads a positive integer setting, falling back to `fallback` and capping at `max`. */
+const positiveInt = (value, fallback, max) => {
+    const n = Math.floor(Number(value));
+    return n > 0 ? Math.min(n, max) : fallback;
+};
+
+/**
+ * Runs `task` over `items` with at most `limit` calls in flight. Results keep the input order.
+ */
+async function mapWithConcurrency(items, limit, task) {
+    const results = new Array(items.length);
+    let next = 0;
+    const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index], index);
         }
+    });
+    await Promise.all(workers);
+    return results;
+}
+
+/**
+ * POSTs one embedding request. Connection errors, 429 and 5xx are retried with exponential backoff;
+ * other statuses fail at once. Thrown errors carry `retryable` so callers can tell them apart.
+ */
+async function postEmbeddingRequest(endpoint, body) {
+    for (let attempt = 0; ; attempt++) {
+        let message;
+        let retryable = true;
+        try {
+            const response = await fetch(endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body)
+            });
+            if (response.ok) return await response.json();
 
-        const response = await fetch(endpoint, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(body)
-        });
-        
-        if (!response.ok) {
             const errText = await response.text();
-            console.error(`❌ Embedding API Error (${response.status}) at ${endpoint}: ${errText.substring(0, 100)}...`);
-            return null;
+            message = `Embedding API Error (${response.status}) at ${endpoint}: ${errText.substring(0, 100)}`;
+            retryable = response.status === 429 || response.status >= 500;
+        } catch (error) {
+            message = `Connection Error to ${endpoint}: ${error.message}`;
         }
 
-        const data = await response.json();
-        const vector = data.embedding || (data.data && data.data[0] ? data.data[0].embedding : null);
-        
-        if (!vector) {
-            console.warn(`⚠️ Vector missing in response from ${endpoint}`);
+        if (!retryable || attempt >= EMBEDDING_MAX_RETRIES) {
+            const error = new Error(message);
+            error.retryable = retryable;
+            throw error;
         }
-        return vector;
-    } catch (error) {
-        console.error(`❌ Connection Error to ${endpoint}:`, error.message);
-        return null;
+        const delay = EMBEDDING_RETRY_BASE_MS * 2 ** attempt;
+        console.warn(`⚠️ ${message}. Retrying in ${delay}ms (${attempt + 1}/${EMBEDDING_MAX_RETRIES})...`);
+        await sleep(delay);
     }
 }
 
-const normalize = (text) => {
-    return text.toLowerCase()
-        .replace(/[.,/#!$%^&*;:{}=\-_`~()؟،«»"']/g, " ")
-        .replace(/\s+/g, ' ')
-        .trim();
-};
+/**
+ * Embeds many texts. OpenAI-compatible servers (`/v1`) receive up to `embeddingBatchSize` inputs per
+ * request; Ollama's `/api/embeddings` takes a single prompt, so there requests are only parallelised.
+ * At most `embeddingConcurrency` requests are in flight, so the local model server is not flooded.
+ * `onProgress(done, failed, total)` is called after every batch; once `signal` is aborted no further
+ * batches are sent and the remaining texts come back with error 'Cancelled'.
+ * @returns {Promise<Array<{vector: number[]|null, error: string|null}>>} One entry per text, in input order.
+ */
+async function getEmbeddings(texts, config = {}, { onProgress, signal } = {}) {
+    const baseUrl = (config.ollamaBaseUrl || DEFAULT_OLLAMA_URL).replace(/\/$/, '');
+    const model = resolveEmbeddingModel(config);
+    const endpoint = getEmbeddingEndpoint(baseUrl);
+    const supportsBatch = baseUrl.endsWith('/v1');
+    const batchSize = supportsBatch ? positiveInt(config.embeddingBatchSize, EMBEDDING_BATCH_SIZE, 256) : 1;
+    const concurrency = positiveInt(config.embeddingConcurrency, EMBEDDING_CONCURRENCY, 16);
 
-const calculateKeywordScore = (query, content) => {
-    const normQuery = normalize(query);
-    const normContent = normalize(content);
-    
-    if (normQuery.length > 10 && normContent.includes(normQuery)) {
-        return 1.0; 
-    }
+    const safeTexts = texts.map(t => String(t || '').replace(/[\u0000-\u001F]/g, ""));
+    const toResult = (vector) => Array.isArray(vector) && vector.length > 0
+        ? { vector, error: null }
+        : { vector: null, error: `Vector missing in response from ${endpoint}` };
+
+    const embedBatch = async (batch) => {
+        try {
+            if (!supportsBatch) {
+                const data = await postEmbeddingRequest(endpoint, { model, prompt: batch[0] });
+                return [toResult(data.embedding)];
+            }
+            const data = await postEmbeddingRequest(endpoint, { model, input: batch });
+            const vectors = new Array(batch.length).fill(null);
+            (data.data || []).forEach((d, i) => { vectors[d.index ?? i] = d.embedding; });
+            return vectors.map(toResult);
+        } catch (error) {
+            // A rejected batch (e.g. one over-long input) is split so only the offending chunks fail
+            if (batch.length > 1 && !error.retryable) {
+                console.warn(`⚠️ Batch of ${batch.length} rejected (${error.message}). Embedding its inputs one by one...`);
+                const results = [];
+                for (const text of batch) results.push(...await embedBatch([text]));
+                return results;
+            }
+            console.error(`❌ ${error.message}`);
+            return batch.map(() => ({ vector: null, error: error.message }));
+        }
+    };
+
+    // Cached vectors are used as-is; only the misses are sent to the model server
+    const results = safeTexts.map(text => {
+        const vector = embeddingCache.get(model, text);
+        return vector ? { vector, error: null } : null;
+    });
+    const missIndexes = results.map((r, i) => (r ? -1 : i)).filter(i => i !== -1);
 
-    const queryTokens = normQuery.split(' ').filter(t => t.length > 2);
-    if (queryTokens.length === 0) return 0;
+    const batches = [];
+    for (let i = 0; i < missIndexes.length; i += batchSize) batches.push(missIndexes.slice(i, i + batchSize));
 
-    let score = 0;
-    let matchedTokens = 0;
-    
-    queryTokens.forEach(token => {
-        if (normContent.includes(token)) {
-            matchedTokens++;
-            score += 0.1;
+    let done = safeTexts.length - missIndexes.length;
+    let failed = 0;
+    if (done > 0) {
+        console.log(`🗃️ [Embedding Cache] ${done}/${safeTexts.length} vectors served from cache.`);
+        onProgress?.(done, failed, texts.length);
+    }
+    await mapWithConcurrency(batches, concurrency, async (indexes) => {
+        const batchResults = signal?.aborted
+            ? indexes.map(() => ({ vector: null, error: 'Cancelled' }))
+            : await embedBatch(indexes.map(i => safeTexts[i]));
+        indexes.forEach((textIndex, j) => {
+            results[textIndex] = batchResults[j];
+            if (batchResults[j].vector) embeddingCache.set(model, safeTexts[textIndex], batchResults[j].vector);
+        });
+        if (signal?.aborted) return;
+
+        const before = done;
+        done += indexes.length;
+        failed += batchResults.filter(r => !r.vector).length;
+        onProgress?.(done, failed, texts.length);
+        if (texts.length >= 100 && Math.floor(before / 100) !== Math.floor(done / 100)) {
+            console.log(`   ...embedded ${done}/${texts.length}`);
         }
     });
+    return results;
+}
 
-    score += (matchedTokens / queryTokens.length) * 0.5;
-    return Math.min(1.0, score);
+async function getEmbedding(text, config = {}) {
+    const [result] = await getEmbeddings([text], config);
+    return result.vector;
+}
+
+/** Squared L2 distance, matching LanceDB's default `_distance` metric. */
+const squaredDistance = (a, b) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+        const d = a[i] - (b[i] || 0);
+        sum += d * d;
+    }
+    return sum;
 };
 
-// --- API ROUTES ---
+/**
+ * Reciprocal Rank Fusion over the vector and BM25 lists: sum of 1 / (k + rank).
+ * Ranks are scale-free, so no per-corpus weight tuning is needed. The sum is divided by
+ * its maximum (rank 1 in both lists) to keep `score` in 0-1 like the linear blend.
+ */
+const rrfScore = (vectorRank, keywordRank, k) => {
+    const safeK = Number.isFinite(k) && k >= 0 ? k : 60;
+    const term = (rank) => (rank ? 1 / (safeK + rank) : 0);
+    return (term(vectorRank) + term(keywordRank)) / (2 / (safeK + 1));
+};
+
+/** Matched children returned per parent (the best-scoring ones). */
+const MAX_MATCHED_CHILDREN = 3;
+/** Keyword hits fused with the vector results; more are scored when filters may discard some. */
+const KEYWORD_CANDIDATES = 50;
+const FILTERED_KEYWORD_CANDIDATES = 200;
+
+/**
+ * Collapses child hits into their parent passage. Children of one parent share `source_id`
+ * and `content`; the parent is scored by its best child and keeps that child's row fields.
+ * @param {object[]} hits Ranked rows carrying `score` and `search_content`
+ * @returns {object[]} One row per parent, best first, with `parentId`, `childHits` and `matchedChildren`
+ */
+const groupHitsByParent = (hits) => {
+    const parents = new Map();
+    for (const hit of hits) {
+        const parentId = crypto.createHash('sha1').update(`${hit.source_id}\u0000${hit.content}`).digest('hex');
+        const { search_content: childText, ...row } = hit;
+        const child = { id: hit.id, text: childText || '', score: hit.score };
+        const parent = parents.get(parentId);
+        if (!parent) {
+            parents.set(parentId, { ...row, parentId, childHits: 1, matchedChildren: [child] });
+            continue;
+        }
+        parent.childHits++;
+        parent.matchedChildren.push(child);
+        if (hit.score > parent.score) Object.assign(parent, row, { parentId });
+    }
+    return [...parents.values()]
+        .map(p => ({ ...p, matchedChildren: p.matchedChildren.sort((a, b) => b.score - a.score).slice(0, MAX_MATCHED_CHILDREN) }))
+        .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Extracts the text delta from one line of a provider stream.
+ * Handles OpenAI-compatible SSE ("data: {...}") and Ollama NDJSON ("{...}").
+ * Returns null for keep-alives, comments and the terminal [DONE] marker.
+ */
+const parseStreamLine = (line) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith(':')) return null;
+
+    const payload = trimmed.startsWith('data:') ? trimmed.slice(5).trim() : trimmed;
+    if (payload === '[DONE]') return null;
 
-app.post('/api/ingest', async (req, res) => {
-    console.log("📥 [API] /api/ingest called");
     try {
-        const { chunks, configuration } = req.body;
-        if (!chunks || !Array.isArray(chunks)) {
-            console.error("❌ Invalid chunks data received");
-            return res.status(400).json({ error: 'Invalid chunks data' });
+        const data = JSON.parse(payload);
+        return data.choices?.[0]?.delta?.content ?? data.message?.content ?? data.response ?? null;
+    } catch (e) {
+        return null;
+    }
+};
+
+/**
+ * Relays a streamed provider response to the client as NDJSON ({"content": "..."} per line).
+ * Both SSE and NDJSON providers are normalized so the browser only parses one format.
+ */
+async function relayChatStream(providerResponse, res) {
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.flushHeaders();
+
+    let buffer = '';
+    for await (const chunk of providerResponse.body) {
+        buffer += chunk.toString('utf8');
+        const lines = buffer.split('\n');
+        buffer = lines.pop();
+
+        for (const line of lines) {
+            const content = parseStreamLine(line);
+            if (content) res.write(JSON.stringify({ content }) + '\n');
         }
+    }
 
-        console.log(`🔄 Processing ${chunks.length} chunks...`);
-        console.log(`⚙️ Config:`, configuration);
+    const tail = parseStreamLine(buffer);
+    if (tail) res.write(JSON.stringify({ content: tail }) + '\n');
+    res.write(JSON.stringify({ done: true }) + '\n');
+    res.end();
+}
 
-        const processedChunks = [];
-        let errorCount = 0;
+// --- API ROUTES ---
 
-        for (let i = 0; i < chunks.length; i++) {
-            const chunk = chunks[i];
-            const vector = await getEmbedding(chunk.searchContent || chunk.content, configuration);
-            
-            if (vector && Array.isArray(vector) && vector.length > 0) {
-                processedChunks.push({
-                    id: chunk.id,
-                    vector: vector,
-                    content: chunk.content,
-                    metadata: JSON.stringify(chunk.metadata),
-                    source_id: chunk.source.id,
-                    source_json: JSON.stringify(chunk.source),
-                    created_at: Date.now()
-                });
-            } else {
-                errorCount++;
-                if (errorCount === 1) console.error("⚠️ First embedding failure detected. Check Ollama.");
-            }
-            
-            if (i % 50 === 0 && i > 0) console.log(`   ...processed ${i}/${chunks.length}`);
+/**
+ * Embeds incoming client chunks (batched and concurrent, see getEmbeddings) and converts them to LanceDB rows.
+ * Chunks whose embedding fails are skipped and reported in `failures`.
+ */
+async function embedChunks(chunks, configuration, options = {}) {
+    const startedAt = Date.now();
+    const results = await getEmbeddings(chunks.map(c => c.searchContent || c.content), configuration, options);
+
+    const processedChunks = [];
+    const failures = [];
+    results.forEach((result, i) => {
+        const chunk = chunks[i];
+        if (!result.vector) {
+            failures.push({ id: chunk.id, sourceId: chunk.source.id, error: result.error });
+            return;
         }
+        processedChunks.push({
+            id: chunk.id,
+            vector: result.vector,
+            content: chunk.content,
+            search_content: chunk.searchContent || chunk.content,
+            metadata: JSON.stringify(chunk.metadata),
+            ...filterColumns(chunk.metadata),
+            source_id: chunk.source.id,
+            source_json: JSON.stringify(chunk.source),
+            created_at: Date.now()
+        });
+    });
+
+    console.log(`📊 Embedding Complete. Success: ${processedChunks.length}, Fail: ${failures.length}, ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+    return { processedChunks, errorCount: failures.length, failures };
+}
+
+/**
+ * Refuses writes while the table layout is not the one this server version expects.
+ * Checked before embedding so no work is wasted on a batch that cannot be stored.
+ */
+function assertWritable() {
+    if (reembedJob.status === 'running') {
+        throw new SchemaError('REEMBED_IN_PROGRESS',
+            `Re-embedding with "${reembedJob.targetModel}" is in progress (${reembedJob.processed}/${reembedJob.total}). Try again when it finishes.`,
+            { job: reembedJob });
+    }
+    if (schemaState.version === SCHEMA_VERSION) return;
+    const tooNew = schemaState.version > SCHEMA_VERSION;
+    throw new SchemaError(
+        tooNew ? 'SCHEMA_TOO_NEW' : 'SCHEMA_MIGRATION_REQUIRED',
+        tooNew
+            ? `The index was written by a newer server (schema v${schemaState.version}, this server supports v${SCHEMA_VERSION}). Update the server.`
+            : `The index uses schema v${schemaState.version} but the server expects v${SCHEMA_VERSION}. Run POST /api/schema/migrate with {"confirm": true} (a backup is taken first).`,
+        { schemaVersion: schemaState.version, expectedSchemaVersion: SCHEMA_VERSION }
+    );
+}
+
+/**
+ * Rejects requests whose embedding model differs from the one that built the index:
+ * vectors from two models live in unrelated spaces, so mixing them silently ruins search quality.
+ */
+function assertEmbeddingModel(configuration) {
+    const model = resolveEmbeddingModel(configuration);
+    if (!table || !schemaState.embeddingModel || schemaState.embeddingModel === model) return;
+    // The new model is already being applied: the client should wait, not start another re-embed
+    if (reembedJob.status === 'running' && reembedJob.targetModel === model) {
+        throw new SchemaError('REEMBED_IN_PROGRESS',
+            `Re-embedding with "${model}" is in progress (${reembedJob.processed}/${reembedJob.total}). Search with this model is available when it finishes.`,
+            { job: reembedJob });
+    }
+    throw new SchemaError('EMBEDDING_MODEL_MISMATCH',
+        `The index was built with "${schemaState.embeddingModel}" but the request uses "${model}". ` +
+        `Switch the embedding model back, or re-embed the knowledge base with the new model.`,
+        { indexModel: schemaState.embeddingModel, requestedModel: model });
+}
+
+/**
+ * Writes embedded rows to the table (creating it on first use) and updates the keyword index.
+ * Rows that do not fit the existing table are rejected with a SchemaError; the table is never dropped here.
+ */
+async function storeChunks(processedChunks, configuration) {
+    assertWritable();
+    if (!table) {
+        console.log("🆕 Creating new table 'knowledge_chunks'...");
+        assertCompatible(processedChunks, { columns: Object.keys(processedChunks[0]), vectorDimension: null });
+        table = await db.createTable('knowledge_chunks', processedChunks);
+        schemaState = {
+            version: SCHEMA_VERSION,
+            embeddingModel: resolveEmbeddingModel(configuration),
+            vectorDimension: processedChunks[0].vector.length
+        };
+        writeSchemaState(SCHEMA_FILE, schemaState);
+    } else {
+        console.log("➕ Appending to existing table...");
+        assertCompatible(processedChunks, await inspectTable(table));
+        await table.add(processedChunks);
+    }
+
+    keywordIndex.add(processedChunks.map(c => ({ id: c.id, content: c.content })));
+}
+
+/** Columns that only exist for search pre-filters (see filters.js). */
+const FILTER_COLUMNS = Object.keys(filterColumns());
+
+/**
+ * LanceDB row -> search result: parsed `metadata` and `source`, without the vector,
+ * the distance or the flat filter columns.
+ */
+const toSearchRow = (r) => {
+    const { vector: _v, _distance, ...row } = r;
+    FILTER_COLUMNS.forEach(column => delete row[column]);
+    return {
+        ...row,
+        metadata: r.metadata ? JSON.parse(r.metadata) : {},
+        source: r.source_json ? JSON.parse(r.source_json) : {}
+    };
+};
+
+/** Metadata filters read the schema v3 columns; older tables have to be migrated first. */
+function assertFilterable() {
+    if (schemaState.version >= 3) return;
+    throw new SchemaError('SCHEMA_MIGRATION_REQUIRED',
+        `Metadata filters need schema v3 (the index is v${schemaState.version}). Run POST /api/schema/migrate with {"confirm": true}.`,
+        { schemaVersion: schemaState.version, expectedSchemaVersion: SCHEMA_VERSION });
+}
+
+/** Quotes a value as a LanceDB SQL string literal. */
+const sqlString = (value) => `'${String(value).replace(/'/g, "''")}'`;
+
+/**
+ * Deletes every chunk that belongs to one of the given documents.
+ * @returns {Promise<number>} Number of deleted chunks.
+ */
+async function deleteDocuments(sourceIds) {
+    if (!table || sourceIds.length === 0) return 0;
 
-        console.log(`📊 Embedding Complete. Success: ${processedChunks.length}, Fail: ${errorCount}`);
+    const predicate = `source_id IN (${sourceIds.map(sqlString).join(', ')})`;
+    const rows = await table.query().where(predicate).select(['id']).limit(await table.countRows()).toArray();
+    if (rows.length === 0) return 0;
 
-        if (processedChunks.length === 0) {
-            return res.status(500).json({ error: 'Ollama Connection Failed. No embeddings generated.' });
+    await table.delete(predicate);
+    keywordIndex.remove(rows.map(r => r.id));
+    return rows.length;
+}
+
+/**
+ * Upserts the complete chunk set of every document in `chunks` (IDs are content hashes).
+ * Unchanged chunks are skipped without re-embedding, new or edited chunks are embedded and added,
+ * and chunks of those documents that no longer exist are removed.
+ * A chunk is "updated" when it occupies a position (`source.position`) whose old content was replaced.
+ * `options` ({ onProgress, signal }) is passed to getEmbeddings; when the signal is aborted during
+ * embedding nothing is written, so the documents keep their previous chunks.
+ */
+async function upsertChunks(chunks, configuration, options = {}) {
+    assertWritable();
+    assertEmbeddingModel(configuration);
+    const incoming = [...new Map(chunks.map(c => [c.id, c])).values()];
+    const sourceIds = [...new Set(incoming.map(c => c.source.id))];
+
+    // sourceId -> Map<chunkId, position>
+    const existingBySource = new Map();
+    const totalRows = table ? await table.countRows() : 0;
+    if (totalRows > 0) {
+        const rows = await table.query()
+            .where(`source_id IN (${sourceIds.map(sqlString).join(', ')})`)
+            .select(['id', 'source_id', 'source_json'])
+            .limit(totalRows)
+            .toArray();
+        rows.forEach(r => {
+            if (!existingBySource.has(r.source_id)) existingBySource.set(r.source_id, new Map());
+            const source = r.source_json ? JSON.parse(r.source_json) : {};
+            existingBySource.get(r.source_id).set(r.id, source.position);
+        });
+    }
+
+    const toEmbed = incoming.filter(c => !existingBySource.get(c.source.id)?.has(c.id));
+    console.log(`🧮 [Upsert] ${incoming.length} chunks, ${incoming.length - toEmbed.length} unchanged, ${toEmbed.length} to embed.`);
+    const { processedChunks, failures } = await embedChunks(toEmbed, configuration, options);
+    if (options.signal?.aborted) {
+        console.log(`⏹️ [Upsert] Cancelled after embedding ${processedChunks.length}/${toEmbed.length}. Nothing written.`);
+        return { cancelled: true, summary: [], toEmbed: toEmbed.length, added: 0 };
+    }
+    const embeddedIds = new Set(processedChunks.map(c => c.id));
+
+    const summary = [];
+    const staleIds = [];
+    sourceIds.forEach(sourceId => {
+        const existing = existingBySource.get(sourceId) || new Map();
+        const docChunks = incoming.filter(c => c.source.id === sourceId);
+        const incomingIds = new Set(docChunks.map(c => c.id));
+        const stale = [...existing.keys()].filter(id => !incomingIds.has(id));
+        const vacatedPositions = new Set(stale.map(id => existing.get(id)).filter(p => p !== undefined));
+
+        const stats = { sourceId, new: 0, unchanged: 0, updated: 0, removed: 0, failed: 0 };
+        docChunks.forEach(c => {
+            if (existing.has(c.id)) stats.unchanged++;
+            else if (!embeddedIds.has(c.id)) stats.failed++;
+            else if (c.source.position !== undefined && vacatedPositions.has(c.source.position)) stats.updated++;
+            else stats.new++;
+        });
+
+        if (stats.failed > 0) {
+            // First failure reason, e.g. the model server being down or an input it rejected
+            stats.error = failures.find(f => f.sourceId === sourceId)?.error;
         }
 
-        if (!table) {
-            console.log("🆕 Creating new table 'knowledge_chunks'...");
-            table = await db.createTable('knowledge_chunks', processedChunks);
+        // Keep the old chunks when embeddings failed, so retrying the upload completes the swap
+        if (stats.failed === 0) {
+            staleIds.push(...stale);
+            stats.removed = Math.max(0, stale.length - stats.updated);
+        }
+        summary.push(stats);
+    });
+
+    if (processedChunks.length > 0) await storeChunks(processedChunks, configuration);
+    if (staleIds.length > 0 && table) {
+        await table.delete(`id IN (${staleIds.map(sqlString).join(', ')})`);
+        keywordIndex.remove(staleIds);
+    }
+
+    return { summary, toEmbed: toEmbed.length, added: processedChunks.length };
+}
+
+// --- INGESTION JOBS ---
+// Uploads are queued and processed one at a time in the background; the client polls for progress.
+// Cancellation stops between embedding batches and before anything is written, so the index never
+// holds half of a document's new chunk set.
+
+const INGEST_JOB_TTL_MS = 60 * 60 * 1000;
+const ingestJobs = new Map();
+let ingestQueue = Promise.resolve();
+
+/** Job fields safe to send to the client (no chunk payload or controller). */
+const publicJob = ({ controller, chunks, configuration, ...job }) => job;
+
+const isActiveJob = (job) => job.status === 'queued' || job.status === 'running';
+
+function pruneIngestJobs() {
+    const cutoff = Date.now() - INGEST_JOB_TTL_MS;
+    for (const [id, job] of ingestJobs) {
+        if (!isActiveJob(job) && job.finishedAt < cutoff) ingestJobs.delete(id);
+    }
+}
+
+/**
+ * Upserts a job's chunks, keeping its counters current for GET /api/ingest/jobs/:jobId.
+ * When `replaceSourceId` is set, that document is removed afterwards if the new chunks use another source ID.
+ */
+async function runIngestJob(job) {
+    if (job.controller.signal.aborted) return;
+    job.status = 'running';
+    console.log(`🔄 [Ingest ${job.id}] Processing ${job.chunks.length} chunks...`);
+    try {
+        const result = await upsertChunks(job.chunks, job.configuration, {
+            signal: job.controller.signal,
+            onProgress: (done, failed, total) => {
+                job.total = total;
+                job.embedded = done - failed;
+                job.failed = failed;
+            }
+        });
+
+        job.total = result.toEmbed;
+        job.embedded = result.added;
+        job.failed = result.toEmbed - result.added;
+        job.summary = result.summary;
+
+        if (result.cancelled) {
+            job.status = 'cancelled';
+        } else if (result.toEmbed > 0 && result.added === 0) {
+            job.status = 'failed';
+            job.error = result.summary.find(s => s.error)?.error || 'Ollama Connection Failed. No embeddings generated.';
         } else {
-            console.log("➕ Appending to existing table...");
-            try {
-                await table.add(processedChunks);
-            } catch (addError) {
-                console.warn(`⚠️ Schema Mismatch or Add Error: ${addError.message}`);
-                console.log("♻️ Dropping and recreating table...");
-                await db.dropTable('knowledge_chunks');
-                table = await db.createTable('knowledge_chunks', processedChunks);
+            // The replacement file may carry a different name; drop the document it replaces
+            const { replaceSourceId } = job;
+            if (replaceSourceId && !job.sourceIds.includes(replaceSourceId) && result.summary.every(s => s.failed === 0)) {
+                job.deleted = await deleteDocuments([replaceSourceId]);
             }
+            job.status = 'completed';
+        }
+    } catch (e) {
+        console.error(`❌ [Ingest ${job.id}] Failed:`, e);
+        job.status = 'failed';
+        job.error = e.message;
+        if (e instanceof SchemaError) job.code = e.code;
+    } finally {
+        job.finishedAt = Date.now();
+        job.chunks = null; // Release the payload; the job record is kept for polling
+        console.log(`🏁 [Ingest ${job.id}] ${job.status}. Embedded: ${job.embedded}, Failed: ${job.failed}`);
+    }
+}
+
+/**
+ * Validates an upload, queues it as a job and answers 202 with the job ID.
+ * Schema and embedding-model conflicts are rejected up front with 409.
+ */
+function enqueueIngestRequest(res, chunks, configuration, replaceSourceId = null) {
+    try {
+        assertWritable();
+        assertEmbeddingModel(configuration);
+    } catch (e) {
+        if (!(e instanceof SchemaError)) throw e;
+        console.error(`⛔ [Schema] Ingestion refused (${e.code}): ${e.message}`);
+        return res.status(409).json({ error: e.message, code: e.code, details: e.details });
+    }
+
+    pruneIngestJobs();
+    const job = {
+        id: `ingest-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        status: 'queued',
+        sourceIds: [...new Set(chunks.map(c => c.source.id))],
+        replaceSourceId,
+        total: chunks.length,
+        embedded: 0,
+        failed: 0,
+        deleted: 0,
+        summary: [],
+        error: null,
+        createdAt: Date.now(),
+        finishedAt: null,
+        controller: new AbortController(),
+        chunks,
+        configuration
+    };
+    ingestJobs.set(job.id, job);
+    ingestQueue = ingestQueue.then(() => runIngestJob(job));
+
+    res.status(202).json({ jobId: job.id, ...publicJob(job) });
+}
+
+app.post('/api/ingest', (req, res) => {
+    console.log("📥 [API] /api/ingest called");
+    const { chunks, configuration } = req.body;
+    if (!chunks || !Array.isArray(chunks)) {
+        console.error("❌ Invalid chunks data received");
+        return res.status(400).json({ error: 'Invalid chunks data' });
+    }
+    enqueueIngestRequest(res, chunks, configuration);
+});
+
+app.get('/api/ingest/jobs/:jobId', (req, res) => {
+    const job = ingestJobs.get(req.params.jobId);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+    res.json(publicJob(job));
+});
+
+app.post('/api/ingest/jobs/:jobId/cancel', (req, res) => {
+    const job = ingestJobs.get(req.params.jobId);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+    if (isActiveJob(job)) {
+        console.log(`⏹️ [Ingest ${job.id}] Cancel requested (${job.status}).`);
+        job.controller.abort();
+        if (job.status === 'queued') {
+            job.status = 'cancelled';
+            job.finishedAt = Date.now();
+            job.chunks = null;
         }
+    }
+    res.json(publicJob(job));
+});
 
+app.get('/api/documents', async (req, res) => {
+    try {
+        if (!table) return res.json([]);
         const count = await table.countRows();
-        console.log(`✅ Indexed Successfully. Total rows in DB: ${count}`);
-        res.json({ success: true, count: processedChunks.length });
+        if (count === 0) return res.json([]);
+
+        // Only the light columns: no vectors or content leave the server
+        const rows = await table.query()
+            .select(['source_id', 'source_json', 'metadata', 'created_at'])
+            .limit(count)
+            .toArray();
+
+        const documents = new Map();
+        rows.forEach(r => {
+            let doc = documents.get(r.source_id);
+            if (!doc) {
+                const source = r.source_json ? JSON.parse(r.source_json) : {};
+                const metadata = r.metadata ? JSON.parse(r.metadata) : {};
+                doc = {
+                    sourceId: r.source_id,
+                    title: source.title || r.source_id,
+                    chunks: 0,
+                    category: metadata.category,
+                    subCategory: metadata.subCategory,
+                    ingestedAt: 0
+                };
+                documents.set(r.source_id, doc);
+            }
+            doc.chunks++;
+            doc.ingestedAt = Math.max(doc.ingestedAt, Number(r.created_at) || 0);
+        });
 
+        res.json([...documents.values()].sort((a, b) => b.ingestedAt - a.ingestedAt));
     } catch (e) {
-        console.error("❌ Ingestion Critical Error:", e);
+        console.error("❌ List Documents Error:", e);
         res.status(500).json({ error: e.message });
     }
 });
 
+app.delete('/api/documents/:sourceId', async (req, res) => {
+    const { sourceId } = req.params;
+    console.log(`🗑️ [API] Deleting document "${sourceId}"`);
+    try {
+        // The re-embed job copies rows into a staging table; a delete now would be undone by the swap
+        if (reembedJob.status === 'running') {
+            return res.status(409).json({ error: 'Re-embedding is in progress. Try again when it finishes.', code: 'REEMBED_IN_PROGRESS' });
+        }
+        // A queued or running upload of this document would write its chunks back after the delete
+        const pendingJob = [...ingestJobs.values()].find(job =>
+            isActiveJob(job) && (job.sourceIds.includes(sourceId) || job.replaceSourceId === sourceId));
+        if (pendingJob) {
+            return res.status(409).json({ error: 'This document is still being uploaded. Try again when it finishes.', code: 'INGEST_IN_PROGRESS', jobId: pendingJob.id });
+        }
+        const deleted = await deleteDocuments([sourceId]);
+        if (deleted === 0) return res.status(404).json({ error: 'Document not found' });
+
+        console.log(`✅ Deleted ${deleted} chunks of "${sourceId}".`);
+        res.json({ success: true, deleted });
+    } catch (e) {
+        console.error("❌ Delete Document Error:", e);
+        res.status(500).json({ error: e.message });
+    }
+});
+
+app.post('/api/documents/:sourceId/reingest', (req, res) => {
+    const { sourceId } = req.params;
+    console.log(`♻️ [API] Re-ingesting document "${sourceId}"`);
+    const { chunks, configuration } = req.body;
+    if (!chunks || !Array.isArray(chunks) || chunks.length === 0) {
+        return res.status(400).json({ error: 'Invalid chunks data' });
+    }
+    enqueueIngestRequest(res, chunks, configuration, sourceId);
+});
+
 app.post('/api/search', async (req, res) => {
     try {
-        const { query, categoryFilter, vectorWeight = 0.35, topK = 20, configuration } = req.body;
+        const { query, categoryFilter, filters = [], vectorWeight = 0.35, fusionMode = 'linear', rrfK = 60, topK = 20, configuration } = req.body;
         
+        // Filters are applied inside LanceDB before the vector search, so the top-50 are all eligible
+        const where = compileFilters(categoryFilter ? [...filters, { field: 'category', op: 'eq', value: categoryFilter }] : filters);
         if (!table) return res.json([]);
+        assertEmbeddingModel(configuration);
+        if (where) assertFilterable();
 
         const queryVector = await getEmbedding(query, configuration);
         if (!queryVector) {
             return res.status(500).json({ error: 'Embedding failed. Check Ollama URL.' });
         }
+        if (schemaState.vectorDimension && queryVector.length !== schemaState.vectorDimension) {
+            throw new SchemaError('VECTOR_DIMENSION_MISMATCH',
+                `Query embedding has ${queryVector.length} dimensions but the index has ${schemaState.vectorDimension}. ` +
+                `The embedding model was changed: switch it back, or re-embed the knowledge base.`,
+                { expected: schemaState.vectorDimension, received: queryVector.length });
+        }
 
         let results = [];
         
         // Attempt search with vectorSearch (modern API) or fallback (deprecated)
         try {
             if (typeof table.vectorSearch === 'function') {
-                results = await table.vectorSearch(queryVector)
+                const vectorQuery = table.vectorSearch(queryVector);
+                results = await (where ? vectorQuery.where(where) : vectorQuery)
                     .limit(50)
                     .toArray();
             } else if (typeof table.search === 'function') {
                 // Fallback for older versions
-                results = await table.search(queryVector)
+                const vectorQuery = table.search(queryVector);
+                results = await (where ? vectorQuery.where(where) : vectorQuery)
                     .limit(50)
                     .execute();
             } else {
@@ -233,46 +848,259 @@ app.post('/api/search', async (req, res) => {
             return res.status(500).json({ error: searchErr.message });
         }
 
-        const rankedResults = results.map(r => {
-            const metadata = r.metadata ? JSON.parse(r.metadata) : {};
-            
-            if (categoryFilter && metadata.category !== categoryFilter) {
-                return null;
+        // Keyword side is queried independently so rare exact terms (error codes, symbols)
+        // are found even when they fall outside the vector top-50.
+        const vectorRanks = new Map(results.map((r, i) => [r.id, i + 1]));
+        let keywordHits = keywordIndex.search(query, where ? FILTERED_KEYWORD_CANDIDATES : KEYWORD_CANDIDATES);
+        const keywordOnlyIds = keywordHits.map(h => h.id).filter(id => !vectorRanks.has(id));
+
+        // Rows of the keyword-only hits; with filters, the same query drops the hits that do not match
+        // (vector results already passed the filter)
+        const keywordOnlyRows = new Set();
+        if (keywordOnlyIds.length > 0) {
+            try {
+                const idList = keywordOnlyIds.map(sqlString).join(', ');
+                const rows = await table.query()
+                    .where(`id IN (${idList})` + (where ? ` AND ${where}` : ''))
+                    .limit(keywordOnlyIds.length)
+                    .toArray();
+                rows.forEach(r => {
+                    const vector = Array.from(r.vector || []);
+                    results.push({ ...r, _distance: squaredDistance(queryVector, vector) });
+                    keywordOnlyRows.add(r.id);
+                });
+            } catch (fetchErr) {
+                console.warn("⚠️ [BM25] Could not load keyword-only rows:", fetchErr.message);
             }
+        }
+        keywordHits = keywordHits
+            .filter(h => vectorRanks.has(h.id) || keywordOnlyRows.has(h.id))
+            .slice(0, KEYWORD_CANDIDATES);
+
+        const maxBm25 = keywordHits.length > 0 ? keywordHits[0].score : 0;
+        const bm25Scores = new Map(keywordHits.map(h => [h.id, h.score]));
+        // 1-based ranks in each list, used by Reciprocal Rank Fusion
+        const keywordRanks = new Map(keywordHits.map((h, i) => [h.id, i + 1]));
 
+        const rankedResults = results.map(r => {
             const vectorScore = 1 - (r._distance || 0); 
-            const keywordScore = calculateKeywordScore(query, r.content);
-            const hybridScore = (vectorScore * vectorWeight) + (keywordScore * (1 - vectorWeight));
+            const bm25Score = bm25Scores.get(r.id) || 0;
+            const keywordScore = maxBm25 > 0 ? bm25Score / maxBm25 : 0;
+            const hybridScore = fusionMode === 'rrf'
+                ? rrfScore(vectorRanks.get(r.id), keywordRanks.get(r.id), rrfK)
+                : (vectorScore * vectorWeight) + (keywordScore * (1 - vectorWeight));
 
             return {
-                ...r,
-                metadata,
-                source: r.source_json ? JSON.parse(r.source_json) : {},
+                ...toSearchRow(r),
                 score: hybridScore,
                 vectorScore,
                 keywordScore,
-                rerankScore: hybridScore
+                bm25Score
             };
         })
-        .filter(r => r !== null) 
-        .sort((a, b) => b.score - a.score) 
-        .slice(0, topK);
+        .sort((a, b) => b.score - a.score);
 
-        res.json(rankedResults);
+        // Several children of one parent often match together: return each parent once
+        res.json(groupHitsByParent(rankedResults).slice(0, topK));
 
     } catch (e) {
+        if (e instanceof FilterError) {
+            return res.status(400).json({ error: e.message, code: e.code, filter: e.filter });
+        }
+        if (e instanceof SchemaError) {
+            console.error(`⛔ [Schema] Search refused (${e.code}): ${e.message}`);
+            return res.status(409).json({ error: e.message, code: e.code, details: e.details });
+        }
         console.error("Search Error:", e);
         res.status(500).json({ error: e.message });
     }
 });
 
+/** Most chunks returned by an identifier lookup (after grouping by parent). */
+const MAX_IDENTIFIER_HITS = 10;
+
+/**
+ * Exact lookup for identifiers pasted into a query. Ticket numbers and customer IDs are matched
+ * against the metadata columns, and every identifier (error codes included) against whole tokens
+ * of the chunk text. No embeddings are involved, so "10061" never returns "10062".
+ * Each hit lists its `matchedIdentifiers` and is scored by the share of identifiers it matched.
+ */
+app.post('/api/lookup', async (req, res) => {
+    try {
+        const { ticketIds = [], customerIds = [], errorCodes = [], filters = [], limit = MAX_IDENTIFIER_HITS } = req.body;
+        const identifiers = [...new Set([...ticketIds, ...customerIds, ...errorCodes].map(String))];
+        const where = compileFilters(filters);
+        if (!table || identifiers.length === 0) return res.json([]);
+        if (where) assertFilterable();
+
+        // identifier -> chunk IDs that contain it verbatim
+        const tokenHits = new Map(identifiers.map(identifier => [identifier, new Set(keywordIndex.lookup(identifier))]));
+        const predicates = [];
+        const tokenIds = [...new Set([...tokenHits.values()].flatMap(ids => [...ids]))];
+        if (tokenIds.length > 0) predicates.push(`id IN (${tokenIds.map(sqlString).join(', ')})`);
+        // The metadata columns only exist from schema v3 on
+        if (schemaState.version >= 3) {
+            if (ticketIds.length > 0) predicates.push(compileFilters([{ field: 'ticketId', op: 'in', value: ticketIds }]));
+            if (customerIds.length > 0) predicates.push(compileFilters([{ field: 'customerId', op: 'in', value: customerIds }]));
+        }
+        if (predicates.length === 0) return res.json([]);
+
+        const predicate = `(${predicates.join(' OR ')})` + (where ? ` AND ${where}` : '');
+        const rows = await table.query().where(predicate).limit(await table.countRows()).toArray();
+
+        const hits = rows.map(r => {
+            const matchedIdentifiers = identifiers.filter(identifier =>
+                tokenHits.get(identifier).has(r.id) ||
+                (ticketIds.includes(identifier) && r.ticket_id === identifier) ||
+                (customerIds.includes(identifier) && r.customer_id === identifier.toUpperCase()));
+            return { ...toSearchRow(r), score: matchedIdentifiers.length / identifiers.length, matchedIdentifiers };
+        })
+        .filter(hit => hit.matchedIdentifiers.length > 0)
+        .sort((a, b) => b.score - a.score);
+
+        console.log(`🔎 [Lookup] ${identifiers.join(', ')} → ${hits.length} chunks`);
+        res.json(groupHitsByParent(hits).slice(0, limit));
+    } catch (e) {
+        if (e instanceof FilterError) {
+            return res.status(400).json({ error: e.message, code: e.code, filter: e.filter });
+        }
+        if (e instanceof SchemaError) {
+            return res.status(409).json({ error: e.message, code: e.code, details: e.details });
+        }
+        console.error("Lookup Error:", e);
+        res.status(500).json({ error: e.message });
+    }
+});
+
+app.post('/api/rerank', async (req, res) => {
+    try {
+        const { query, documents, configuration } = req.body;
+        if (!query || !Array.isArray(documents)) {
+            return res.status(400).json({ error: 'query and documents are required' });
+        }
+        if (documents.length === 0) return res.json({ scores: [] });
+
+        const baseUrl = configuration?.ollamaBaseUrl || DEFAULT_OLLAMA_URL;
+        const model = configuration?.rerankerModel;
+        if (!model) return res.status(400).json({ error: 'No reranker model configured' });
+
+        const cleanUrl = baseUrl.replace(/\/$/, '');
+        const endpoint = cleanUrl.endsWith('/v1') ? `${cleanUrl}/rerank` : `${cleanUrl}/v1/rerank`;
+
+        console.log(`🎯 [Rerank] Scoring ${documents.length} candidates with "${model}"`);
+
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model, query, documents, top_n: documents.length })
+        });
+
+        if (!response.ok) {
+            const err = await response.text();
+            console.error(`❌ Rerank API Error (${response.status}): ${err.substring(0, 100)}`);
+            return res.status(502).json({ error: `Reranker unavailable: ${response.status}` });
+        }
+
+        const data = await response.json();
+        const results = data.results || data.data || [];
+        const raw = new Array(documents.length).fill(null);
+        results.forEach((r, i) => {
+            const idx = typeof r.index === 'number' ? r.index : i;
+            raw[idx] = r.relevance_score ?? r.score ?? null;
+        });
+
+        if (raw.some(s => typeof s !== 'number')) {
+            return res.status(502).json({ error: 'Reranker returned incomplete scores' });
+        }
+
+        // Some servers return raw cross-encoder logits; squash them into 0-1
+        const needsSigmoid = raw.some(s => s < 0 || s > 1);
+        const scores = needsSigmoid ? raw.map(s => 1 / (1 + Math.exp(-s))) : raw;
+
+        res.json({ scores, model });
+    } catch (e) {
+        console.error("Rerank Error:", e.message);
+        res.status(502).json({ error: e.message });
+    }
+});
+
 app.get('/api/stats', async (req, res) => {
+    const schema = {
+        schemaVersion: schemaState.version,
+        expectedSchemaVersion: SCHEMA_VERSION,
+        migrationRequired: schemaState.version !== SCHEMA_VERSION,
+        embeddingModel: schemaState.embeddingModel || null,
+        reembed: reembedJob
+    };
     try {
-        if (!table) return res.json({ count: 0 });
+        if (!table) return res.json({ count: 0, ...schema, vectorDimension: null });
         const count = await table.countRows();
-        res.json({ count });
+        const { vectorDimension } = await inspectTable(table);
+        res.json({ count, ...schema, vectorDimension });
     } catch (e) {
-        res.json({ count: 0 });
+        res.json({ count: 0, ...schema, vectorDimension: null });
+    }
+});
+
+/** Most terms sent by /api/vocabulary (the most frequent ones). */
+const VOCABULARY_LIMIT = 50000;
+
+/**
+ * Corpus vocabulary for the client's query spelling correction: BM25 index terms (normalized,
+ * plural suffixes stripped) with their document frequency. Numbers are left out.
+ */
+app.get('/api/vocabulary', (req, res) => {
+    const terms = keywordIndex.vocabulary().filter(([term]) => !/^\d+$/.test(term)).slice(0, VOCABULARY_LIMIT);
+    res.json({ documents: keywordIndex.size, terms });
+});
+
+app.get('/api/embedding-cache', (req, res) => {
+    res.json(embeddingCache.stats());
+});
+
+app.delete('/api/embedding-cache', (req, res) => {
+    embeddingCache.clear();
+    console.log("🧹 [Embedding Cache] Cleared.");
+    res.json({ success: true });
+});
+
+/**
+ * Upgrades the table to SCHEMA_VERSION. Without `confirm: true` this is a dry run that lists
+ * the pending migrations. A confirmed run backs up every row to data/backups before rewriting.
+ * Vector dimension changes are not migrations: they need a re-embed or a reset.
+ */
+app.post('/api/schema/migrate', async (req, res) => {
+    try {
+        if (reembedJob.status === 'running') {
+            return res.status(409).json({ error: 'A re-embed job is running.', code: 'REEMBED_IN_PROGRESS' });
+        }
+        if (schemaState.version > SCHEMA_VERSION) {
+            return res.status(409).json({ error: `Schema v${schemaState.version} is newer than this server (v${SCHEMA_VERSION}).`, code: 'SCHEMA_TOO_NEW' });
+        }
+
+        const pending = pendingMigrations(schemaState.version).map(m => ({ version: m.version, description: m.description }));
+        if (schemaState.version === SCHEMA_VERSION) {
+            return res.json({ success: true, schemaVersion: SCHEMA_VERSION, applied: [] });
+        }
+        if (req.body?.confirm !== true) {
+            return res.json({ dryRun: true, schemaVersion: schemaState.version, expectedSchemaVersion: SCHEMA_VERSION, pending });
+        }
+
+        console.log(`🔧 [Schema] Migrating v${schemaState.version} -> v${SCHEMA_VERSION}...`);
+        let result = { from: schemaState.version, to: SCHEMA_VERSION, rows: 0, backupFile: null, applied: pending };
+        if (table) {
+            result = await runMigrations(db, table, 'knowledge_chunks', schemaState.version, BACKUP_DIR);
+            table = result.table;
+            await rebuildKeywordIndex();
+        }
+
+        schemaState = { ...schemaState, version: SCHEMA_VERSION };
+        writeSchemaState(SCHEMA_FILE, schemaState);
+        console.log(`✅ [Schema] Migration complete. Rows: ${result.rows}`);
+        res.json({ success: true, from: result.from, to: result.to, rows: result.rows, backupFile: result.backupFile, applied: result.applied });
+    } catch (e) {
+        console.error("❌ Schema Migration Error:", e);
+        res.status(500).json({ error: e.message });
     }
 });
 
@@ -339,6 +1167,12 @@ app.get('/api/chunks', async (req, res) => {
 });
 
 app.post('/api/chat', async (req, res) => {
+    const upstream = new AbortController();
+    // Stop generating on the model server as soon as the browser stops listening
+    res.on('close', () => {
+        if (!res.writableFinished) upstream.abort();
+    });
+
     try {
         const { configuration, ...chatBody } = req.body;
         const baseUrl = configuration?.ollamaBaseUrl || DEFAULT_OLLAMA_URL;
@@ -348,12 +1182,13 @@ app.post('/api/chat', async (req, res) => {
             ? `${cleanUrl}/chat/completions` 
             : `${cleanUrl}/api/chat`; 
 
-        console.log(`💬 [Chat] Sending request to ${endpoint}`);
+        console.log(`💬 [Chat] Sending request to ${endpoint} (stream: ${!!chatBody.stream})`);
 
         const response = await fetch(endpoint, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(chatBody)
+            body: JSON.stringify(chatBody),
+            signal: upstream.signal
         });
         
         if (!response.ok) {
@@ -362,26 +1197,230 @@ app.post('/api/chat', async (req, res) => {
             throw new Error(`AI Provider Error: ${err}`);
         }
 
+        if (chatBody.stream) {
+            return await relayChatStream(response, res);
+        }
+
         const data = await response.json();
         res.json(data);
     } catch (e) {
+        if (e.name === 'AbortError') {
+            console.log("⏹️ [Chat] Client disconnected. Generation aborted.");
+            return;
+        }
         console.error("Chat Proxy Error:", e);
+        if (res.headersSent) {
+            // Mid-stream failure: report it in-band so the client keeps the partial answer
+            res.write(JSON.stringify({ error: e.message }) + '\n');
+            return res.end();
+        }
         res.status(500).json({ error: e.message });
     }
 });
 
+// --- RE-EMBEDDING JOB ---
+// Rebuilds every vector with a new embedding model into a staging table, then swaps it in.
+// The live table keeps serving the old vectors until the swap. Progress is persisted after every
+// batch, so a stopped job (or a server restart) resumes from the rows already in the staging table.
+
+function loadReembedJob() {
+    try {
+        if (fs.existsSync(REEMBED_STATE_FILE)) {
+            const saved = JSON.parse(fs.readFileSync(REEMBED_STATE_FILE, 'utf8'));
+            // The process that ran it is gone; it resumes when started again
+            return saved.status === 'running' ? { ...saved, status: 'paused' } : saved;
+        }
+    } catch (e) {
+        console.warn(`⚠️ [Re-embed] Could not read job state: ${e.message}`);
+    }
+    return { status: 'idle' };
+}
+
+function saveReembedJob(patch) {
+    reembedJob = { ...reembedJob, ...patch, updatedAt: Date.now() };
+    fs.writeFileSync(REEMBED_STATE_FILE, JSON.stringify(reembedJob, null, 2));
+}
+
+/** Reads one column of every row, e.g. all chunk IDs. */
+async function readColumn(targetTable, column) {
+    const count = await targetTable.countRows();
+    if (count === 0) return [];
+    const rows = await targetTable.query().select([column]).limit(count).toArray();
+    return rows.map(r => r[column]);
+}
+
+/**
+ * Replaces the live table with the staged rows, copied in batches so memory does not grow with the corpus.
+ * The job is marked `swapping` first: the live table is incomplete until the copy finishes, so an
+ * interrupted swap is finished from the (complete) staging table the next time the job starts.
+ */
+async function swapInStagingTable(staging, model) {
+    const stagedIds = await readColumn(staging, 'id');
+    saveReembedJob({ swapping: true });
+
+    let vectorDimension = null;
+    let live = null;
+    for (let i = 0; i < stagedIds.length; i += REEMBED_SWAP_BATCH_SIZE) {
+        const batchIds = stagedIds.slice(i, i + REEMBED_SWAP_BATCH_SIZE);
+        const rows = (await staging.query().where(`id IN (${batchIds.map(sqlString).join(', ')})`).limit(batchIds.length).toArray())
+            .map(toPlainRow);
+        if (!live) {
+            live = await db.createTable('knowledge_chunks', rows, { mode: 'overwrite' });
+            vectorDimension = rows[0]?.vector.length || null;
+        } else {
+            await live.add(rows);
+        }
+    }
+    if (live) {
+        table = live;
+        await db.dropTable(REEMBED_TABLE);
+        schemaState = { ...schemaState, embeddingModel: model, vectorDimension };
+        writeSchemaState(SCHEMA_FILE, schemaState);
+    }
+    saveReembedJob({ swapping: false });
+    await rebuildKeywordIndex();
+    return stagedIds.length;
+}
+
+async function runReembedJob(configuration) {
+    const model = resolveEmbeddingModel(configuration);
+    const previousTarget = reembedJob.targetModel;
+    reembedStopRequested = false;
+    // Marked synchronously so a second start request sees the job as running
+    reembedJob = { ...reembedJob, status: 'running', targetModel: model };
+
+    let staging = (await db.tableNames()).includes(REEMBED_TABLE) ? await db.openTable(REEMBED_TABLE) : null;
+    if (staging && reembedJob.swapping) {
+        // The live table was left half-copied: finish that swap before anything else
+        console.log(`♻️ [Re-embed] Finishing an interrupted swap to "${previousTarget}".`);
+        const rows = await swapInStagingTable(staging, previousTarget);
+        saveReembedJob({ status: 'completed', targetModel: previousTarget, finishedAt: Date.now() });
+        console.log(`✅ [Re-embed] Index rebuilt with "${previousTarget}". Rows: ${rows}`);
+        return;
+    }
+    if (staging && previousTarget !== model) {
+        console.log(`♻️ [Re-embed] Discarding staged rows of another model.`);
+        await db.dropTable(REEMBED_TABLE);
+        staging = null;
+    }
+
+    const allIds = await readColumn(table, 'id');
+    const doneIds = new Set(staging ? await readColumn(staging, 'id') : []);
+    const pendingIds = allIds.filter(id => !doneIds.has(id));
+    saveReembedJob({
+        status: 'running',
+        targetModel: model,
+        total: allIds.length,
+        processed: allIds.length - pendingIds.length,
+        failed: 0,
+        startedAt: doneIds.size > 0 && reembedJob.startedAt ? reembedJob.startedAt : Date.now(),
+        finishedAt: null,
+        error: null
+    });
+    console.log(`🧬 [Re-embed] ${pendingIds.length} of ${allIds.length} chunks to embed with "${model}".`);
+
+    for (let i = 0; i < pendingIds.length; i += REEMBED_BATCH_SIZE) {
+        if (reembedStopRequested) {
+            saveReembedJob({ status: 'paused' });
+            console.log(`⏸️ [Re-embed] Stopped at ${reembedJob.processed}/${reembedJob.total}.`);
+            return;
+        }
+
+        const batchIds = pendingIds.slice(i, i + REEMBED_BATCH_SIZE);
+        const rows = await table.query().where(`id IN (${batchIds.map(sqlString).join(', ')})`).limit(batchIds.length).toArray();
+        const plainRows = rows.map(toPlainRow);
+        const results = await getEmbeddings(plainRows.map(row => row.search_content || row.content), configuration);
+        const rebuilt = plainRows
+            .map((row, index) => ({ ...row, vector: results[index].vector }))
+            .filter(row => row.vector);
+
+        if (rebuilt.length > 0) {
+            if (!staging) {
+                staging = await db.createTable(REEMBED_TABLE, rebuilt);
+            } else {
+                assertCompatible(rebuilt, await inspectTable(staging));
+                await staging.add(rebuilt);
+            }
+        }
+        saveReembedJob({
+            processed: reembedJob.processed + rebuilt.length,
+            failed: reembedJob.failed + rows.length - rebuilt.length,
+            lastError: results.find(r => r.error)?.error || reembedJob.lastError || null
+        });
+    }
+
+    if (reembedJob.failed > 0) {
+        saveReembedJob({ status: 'failed', error: `${reembedJob.failed} chunks could not be embedded. Start the job again to retry them.` });
+        return;
+    }
+
+    // Swap: the staging rows become the live table
+    let swappedRows = 0;
+    if (staging) {
+        swappedRows = await swapInStagingTable(staging, model);
+    } else {
+        schemaState = { ...schemaState, embeddingModel: model, vectorDimension: null };
+        writeSchemaState(SCHEMA_FILE, schemaState);
+        await rebuildKeywordIndex();
+    }
+
+    saveReembedJob({ status: 'completed', finishedAt: Date.now() });
+    console.log(`✅ [Re-embed] Index rebuilt with "${model}". Rows: ${swappedRows}`);
+}
+
+app.get('/api/reembed', (req, res) => {
+    res.json(reembedJob);
+});
+
+/**
+ * Starts (or resumes) re-embedding the whole knowledge base with `configuration.embeddingModel`.
+ * Returns immediately; poll GET /api/reembed for progress.
+ */
+app.post('/api/reembed', async (req, res) => {
+    const { configuration } = req.body;
+    if (reembedJob.status === 'running') {
+        return res.status(409).json({ error: 'A re-embed job is already running.', code: 'REEMBED_IN_PROGRESS', job: reembedJob });
+    }
+    if ([...ingestJobs.values()].some(isActiveJob)) {
+        return res.status(409).json({ error: 'Uploads are still being processed. Re-embed when they finish.', code: 'INGEST_IN_PROGRESS' });
+    }
+    if (schemaState.version !== SCHEMA_VERSION) {
+        return res.status(409).json({ error: `Run the schema migration (v${schemaState.version} -> v${SCHEMA_VERSION}) before re-embedding.`, code: 'SCHEMA_MIGRATION_REQUIRED' });
+    }
+    if (!table) return res.status(400).json({ error: 'The knowledge base is empty.' });
+
+    runReembedJob(configuration).catch(e => {
+        console.error("❌ [Re-embed] Job failed:", e);
+        saveReembedJob({ status: 'failed', error: e.message });
+    });
+    res.status(202).json(reembedJob);
+});
+
+app.post('/api/reembed/stop', (req, res) => {
+    if (reembedJob.status === 'running') reembedStopRequested = true;
+    res.json(reembedJob);
+});
+
 app.post('/api/reset', async (req, res) => {
     console.log("🧨 [API] Reset called. Wiping DB...");
     try {
+        if (reembedJob.status === 'running') {
+            return res.status(409).json({ error: 'Stop the re-embed job before resetting the database.', code: 'REEMBED_IN_PROGRESS' });
+        }
         if (table) {
             try { await db.dropTable('knowledge_chunks'); } catch(e) {}
             table = null;
         }
+        keywordIndex.clear();
+        reembedJob = { status: 'idle' };
+        ingestJobs.forEach(job => job.controller.abort());
+        if (fs.existsSync(REEMBED_STATE_FILE)) fs.rmSync(REEMBED_STATE_FILE);
         
         if (fs.existsSync(DB_PATH)) {
              fs.rmSync(DB_PATH, { recursive: true, force: true });
              fs.mkdirSync(DB_PATH);
         }
+        if (fs.existsSync(SCHEMA_FILE)) fs.rmSync(SCHEMA_FILE);
         await initDB();
         console.log("✅ [API] DB Reset Complete.");
         res.json({ success: true });
@@ -391,7 +1430,7 @@ app.post('/api/reset', async (req, res) => {
     }
 });
 
-initDB().then(() => {
+embeddingCache.load().then(initDB).then(() => {
     app.listen(PORT, () => {
         console.log(`🚀 Central RAG Server running on http://localhost:${PORT}`);
     });
@@ -0,0 +1,174 @@
+// --- SCHEMA VERSIONING ---
+// The layout of the LanceDB table is versioned in a sidecar file (data/schema.json).
+// Writes are refused while the on-disk version differs from SCHEMA_VERSION, and migrations
+// only run through the explicit, confirmed /api/schema/migrate command (with a JSON backup first).
+
+const fs = require('fs');
+const path = require('path');
+const { filterColumns } = require('./filters');
+
+const SCHEMA_VERSION = 3;
+
+/**
+ * Ordered table migrations. `up` converts one row from the previous version's layout.
+ */
+const MIGRATIONS = [
+    {
+        version: 2,
+        description: 'Add search_content column (the exact text that was embedded) so vectors can be rebuilt on the server',
+        // v1 rows only kept the parent text; it is the closest stand-in until the file is re-uploaded
+        up: (row) => ({ ...row, search_content: row.content })
+    },
+    {
+        version: 3,
+        description: 'Copy filterable metadata (category, ticket, customer, software, version, date, tags, symbols) into columns for search pre-filters',
+        up: (row) => ({ ...row, ...filterColumns(row.metadata ? JSON.parse(row.metadata) : {}) })
+    }
+];
+
+class SchemaError extends Error {
+    /**
+     * @param {string} code Machine-readable cause (e.g. VECTOR_DIMENSION_MISMATCH)
+     * @param {string} message Human-readable explanation, returned to the client as-is
+     * @param {object} details Extra fields for the API response
+     */
+    constructor(code, message, details = {}) {
+        super(message);
+        this.name = 'SchemaError';
+        this.code = code;
+        this.details = details;
+    }
+}
+
+/**
+ * Reads the stored schema state. Tables created before versioning existed use the v1 layout.
+ */
+const readSchemaState = (file, tableExists) => {
+    try {
+        if (fs.existsSync(file)) return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+        console.warn(`⚠️ [Schema] Could not read ${file}: ${e.message}`);
+    }
+    return { version: tableExists ? 1 : SCHEMA_VERSION };
+};
+
+const writeSchemaState = (file, state) => {
+    fs.writeFileSync(file, JSON.stringify({ ...state, updatedAt: Date.now() }, null, 2));
+};
+
+/** Migrations that still have to run for a table at `fromVersion`. */
+const pendingMigrations = (fromVersion) =>
+    MIGRATIONS.filter(m => m.version > fromVersion && m.version <= SCHEMA_VERSION).sort((a, b) => a.version - b.version);
+
+/**
+ * Reads the column names and vector dimension of an open table.
+ * Falls back to sampling one row when the Arrow schema is not exposed by the bindings.
+ */
+async function inspectTable(table) {
+    let columns = [];
+    let vectorDimension = null;
+    try {
+        const schema = await table.schema();
+        columns = schema.fields.map(f => f.name);
+        const vectorField = schema.fields.find(f => f.name === 'vector');
+        vectorDimension = vectorField?.type?.listSize ?? null;
+    } catch (e) {
+        console.warn(`⚠️ [Schema] table.schema() unavailable: ${e.message}`);
+    }
+
+    if (columns.length === 0 || vectorDimension === null) {
+        const [row] = await table.query().limit(1).toArray();
+        if (row) {
+            if (columns.length === 0) columns = Object.keys(row).filter(k => !k.startsWith('_'));
+            if (vectorDimension === null && row.vector) vectorDimension = row.vector.length;
+        }
+    }
+    return { columns, vectorDimension };
+}
+
+/**
+ * Verifies that `rows` can be appended to a table of the given shape.
+ * Throws a SchemaError that names the real cause instead of a generic add failure.
+ */
+function assertCompatible(rows, shape) {
+    const dimensions = [...new Set(rows.map(r => r.vector.length))];
+    if (dimensions.length > 1) {
+        throw new SchemaError('MIXED_VECTOR_DIMENSIONS',
+            `The batch mixes embedding dimensions (${dimensions.join(', ')}). Check the embedding model configuration.`,
+            { dimensions });
+    }
+    if (shape.vectorDimension && dimensions[0] !== shape.vectorDimension) {
+        throw new SchemaError('VECTOR_DIMENSION_MISMATCH',
+            `Embedding dimension ${dimensions[0]} does not match the index (${shape.vectorDimension}). ` +
+            `The embedding model was probably changed: switch it back, or re-embed the knowledge base.`,
+            { expected: shape.vectorDimension, received: dimensions[0] });
+    }
+
+    const incomingColumns = Object.keys(rows[0]);
+    const newColumns = incomingColumns.filter(c => !shape.columns.includes(c));
+    const missingColumns = shape.columns.filter(c => !incomingColumns.includes(c));
+    if (newColumns.length > 0 || missingColumns.length > 0) {
+        throw new SchemaError('COLUMN_MISMATCH',
+            `Table columns differ from the rows being written (new: ${newColumns.join(', ') || '-'}, missing: ${missingColumns.join(', ') || '-'}). ` +
+            `A schema migration is required.`,
+            { newColumns, missingColumns });
+    }
+}
+
+/** Arrow rows -> plain JSON-safe objects (typed arrays and BigInts converted). */
+const toPlainRow = (row) => {
+    const { _distance, ...rest } = row;
+    const plain = {};
+    for (const [key, value] of Object.entries(rest)) {
+        if (typeof value === 'bigint') plain[key] = Number(value);
+        else if (key === 'vector') plain[key] = Array.from(value);
+        else plain[key] = value;
+    }
+    return plain;
+};
+
+/**
+ * Applies pending migrations by rewriting the table. Every row is backed up to JSON first.
+ * @returns {Promise<{table: object|null, from: number, to: number, rows: number, backupFile: string, applied: object[]}>}
+ */
+async function runMigrations(db, table, tableName, fromVersion, backupDir) {
+    const pending = pendingMigrations(fromVersion);
+    const count = await table.countRows();
+    const rows = count > 0 ? (await table.query().limit(count).toArray()).map(toPlainRow) : [];
+
+    fs.mkdirSync(backupDir, { recursive: true });
+    const backupFile = path.join(backupDir, `${tableName}-v${fromVersion}-${Date.now()}.json`);
+    fs.writeFileSync(backupFile, JSON.stringify(rows));
+    console.log(`💾 [Schema] Backed up ${rows.length} rows to ${backupFile}`);
+
+    const migrated = pending.reduce((acc, m) => {
+        console.log(`🔧 [Schema] Applying v${m.version}: ${m.description}`);
+        return acc.map(m.up);
+    }, rows);
+
+    // An empty table carries the old column layout; drop it so the next ingest creates the new one
+    let newTable = null;
+    if (migrated.length > 0) newTable = await db.createTable(tableName, migrated, { mode: 'overwrite' });
+    else await db.dropTable(tableName);
+
+    return {
+        table: newTable,
+        from: fromVersion,
+        to: SCHEMA_VERSION,
+        rows: migrated.length,
+        backupFile,
+        applied: pending.map(m => ({ version: m.version, description: m.description }))
+    };
+}
+
+module.exports = {
+    SCHEMA_VERSION,
+    SchemaError,
+    readSchemaState,
+    writeSchemaState,
+    pendingMigrations,
+    inspectTable,
+    assertCompatible,
+    toPlainRow,
+    runMigrations
+};
@@ -1,7 +1,7 @@
 
 import { BenchmarkCase, BenchmarkResult, KnowledgeChunk, SearchOverrides, TuningStepResult } from '../types';
 import { processQuery } from './search';
-import { getEmbedding, preWarmModel, cosineSimilarity } from './ollama';
+import { getEmbedding, preWarmModel, cosineSimilarity, EmbeddingError } from './ollama';
 import { getSettings, updateSettings } from './settings';
 
 const normalizeText = (text: string): string => {
@@ -33,26 +33,38 @@ export const runBenchmark = async (
         // Trigger Advisor Mode ONLY if it's a ticket
         const isTicket = String(testCase.id).startsWith('ticket-');
 
-        const result = await processQuery(
+        const runQuery = (categoryFilter?: string) => processQuery(
             testCase.question, 
             knowledgeBase,
             undefined, 
-            undefined, 
+            categoryFilter, 
             searchOverrides?.temperature,         
             false,
             [],
             searchOverrides,
             isTicket 
         );
+
+        let result = await runQuery();
+        // No one answers clarification prompts during a benchmark: take the top-ranked category
+        if (result.isAmbiguous && result.options?.length) {
+            result = await runQuery(result.options[0]);
+        }
         
         let finalScore = 0;
-        if (result.text && !result.text.includes("اطلاعاتی") && !result.error) {
+        let scoringError: string | undefined;
+        if (result.text && !result.noAnswer && !result.text.includes("اطلاعاتی") && !result.error) {
             const recall = calculateKeywordRecall(result.text, testCase.groundTruth);
             try {
                 const genVec = await getEmbedding(result.text, false);
                 const truthVec = await getEmbedding(testCase.groundTruth, false);
                 finalScore = (recall * 0.4) + (cosineSimilarity(genVec, truthVec) * 0.6);
-            } catch { finalScore = recall; }
+            } catch (e: any) {
+                if (!(e instanceof EmbeddingError)) throw e;
+                // Keep the case but mark it: a keyword-only score is not comparable to a semantic one
+                finalScore = recall;
+                scoringError = `${e.code}: ${e.message}`;
+            }
         }
 
         onProgress(i + 1, testCases.length, {
@@ -62,7 +74,9 @@ export const runBenchmark = async (
             generatedAnswer: result.text || "بدون پاسخ",
             similarityScore: parseFloat(finalScore.toFixed(2)),
             retrievedSources: result.sources,
-            timeTakenMs: Date.now() - startTime
+            timeTakenMs: Date.now() - startTime,
+            scoringDegraded: !!scoringError,
+            scoringError
         });
     }
 };
@@ -75,6 +89,11 @@ export const runAutoTuneBenchmark = async (testCases: BenchmarkCase[], knowledge
         { strategyName: 'متمرکز بر معنا (Vector Heavy)', enableReranker: true, vectorWeight: 0.9, temperature: 0.0, minConfidence: 0.1 },
         { strategyName: 'حالت خلاقانه (Creative)', enableReranker: true, vectorWeight: 0.7, temperature: 0.6, minConfidence: 0.05 },
         { strategyName: 'حالت سخت‌گیرانه (Strict)', enableReranker: true, vectorWeight: 0.8, temperature: 0.0, minConfidence: 0.4 },
+        { strategyName: 'ادغام رتبه‌ای (RRF k=60)', enableReranker: true, fusionMode: 'rrf', rrfK: 60, temperature: 0.0, minConfidence: 0.1 },
+        { strategyName: 'ادغام رتبه‌ای تیز (RRF k=20)', enableReranker: true, fusionMode: 'rrf', rrfK: 20, temperature: 0.0, minConfidence: 0.1 },
+        { strategyName: 'ادغام رتبه‌ای بدون Reranker (RRF k=60)', enableReranker: false, fusionMode: 'rrf', rrfK: 60, temperature: 0.0, minConfidence: 0.1 },
+        { strategyName: 'بدون تنوع‌بخشی (MMR خاموش)', enableReranker: true, vectorWeight: 0.8, mmrLambda: 1, temperature: 0.0, minConfidence: 0.1 },
+        { strategyName: 'تنوع منابع بالا (MMR λ=0.5)', enableReranker: true, vectorWeight: 0.8, mmrLambda: 0.5, temperature: 0.0, minConfidence: 0.1 },
     ];
 
     let bestConfig = null;
@@ -82,7 +101,11 @@ export const runAutoTuneBenchmark = async (testCases: BenchmarkCase[], knowledge
 
     for (const strategy of strategies) {
         const scores: number[] = [];
-        await runBenchmark(testCases, knowledgeBase, (curr, total, res) => { scores.push(res.similarityScore); }, strategy);
+        const logs: string[] = [];
+        await runBenchmark(testCases, knowledgeBase, (curr, total, res) => {
+            scores.push(res.similarityScore);
+            if (res.scoringDegraded) logs.push(`${res.caseId}: ${res.scoringError}`);
+        }, strategy);
         const avgScore = scores.reduce((a, b) => a + b, 0) / scores.length;
         
         onStep({ 
@@ -90,9 +113,12 @@ export const runAutoTuneBenchmark = async (testCases: BenchmarkCase[], knowledge
             config: strategy, 
             score: parseFloat(avgScore.toFixed(3)), 
             pass: avgScore > 0.6, // Arbitrary pass threshold
-            logs: [] 
+            logs,
+            degradedCases: logs.length
         });
 
+        // Scores computed with and without embeddings are not comparable: a degraded strategy can't win
+        if (logs.length > 0) continue;
         if (avgScore > bestScore) { 
             bestScore = avgScore; 
             bestConfig = strategy; 
@@ -1,13 +1,15 @@
 
-import { KnowledgeChunk, Conversation, BenchmarkRun, FineTuningRecord } from '../types';
+import { KnowledgeChunk, Conversation, BenchmarkRun, FineTuningRecord, DocumentStatus, IngestSummary, IngestJob, ReembedJob, EmbeddingCacheEntry, EmbeddingCacheStats, SynonymEntry, BaseDocument } from '../types';
 import { LocalDB } from './localDb';
 import { getSettings } from './settings';
+import { hashText } from './textProcessor';
+import { defaultSynonymEntries } from './synonyms';
 
 // --- NoSQL Database Configuration (Keep LocalDB for User History/Chats only) ---
 const DB_CONFIG = {
     dbName: 'RayanRAG_LocalCache',
-    version: 5, 
-    stores: ['conversations', 'benchmark_runs', 'fine_tuning_dataset', 'tickets'] 
+    version: 8, 
+    stores: ['conversations', 'benchmark_runs', 'fine_tuning_dataset', 'tickets', 'embedding_cache', 'synonyms', 'app_state'] 
 };
 
 const db = new LocalDB(DB_CONFIG);
@@ -19,34 +21,158 @@ const getDB = async () => {
 
 // --- SERVER API WRAPPERS ---
 
+const INGEST_POLL_MS = 1000;
+
 /**
  * Sends a batch of knowledge chunks to the Central Server for ingestion.
  * Includes current configuration so the server uses the correct Ollama instance.
+ * The server upserts by chunk ID, so each call must carry the complete chunk set of every document in it.
+ * When `replaceSourceId` is given, that document is replaced even if the new chunks use another source ID.
+ *
+ * The server queues the upload as a job; this polls it, reporting progress through `onProgress`.
+ * Aborting `signal` cancels the job on the server (nothing is written) and rejects with "ABORTED".
  */
-export const saveChunksToDB = async (chunks: KnowledgeChunk[]): Promise<void> => {
+export const saveChunksToDB = async (
+    chunks: KnowledgeChunk[],
+    replaceSourceId?: string,
+    options: { signal?: AbortSignal; onProgress?: (job: IngestJob) => void } = {}
+): Promise<IngestSummary[]> => {
     const settings = getSettings();
+    const endpoint = replaceSourceId
+        ? `${settings.serverUrl}/documents/${encodeURIComponent(replaceSourceId)}/reingest`
+        : `${settings.serverUrl}/ingest`;
     try {
-        const response = await fetch(`${settings.serverUrl}/ingest`, {
+        const response = await fetch(endpoint, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ 
                 chunks,
                 configuration: {
                     ollamaBaseUrl: settings.ollamaBaseUrl,
-                    embeddingModel: settings.embeddingModel
+                    embeddingModel: settings.embeddingModel,
+                    embeddingBatchSize: settings.embeddingBatchSize,
+                    embeddingConcurrency: settings.embeddingConcurrency
                 }
             })
         });
         
-        if (!response.ok) throw new Error('Server ingestion failed. Check Server logs.');
-        const data = await response.json();
-        console.log(`Server responded: ${data.count} chunks indexed.`);
+        if (!response.ok) {
+            // Schema conflicts (409) carry an explanatory message
+            const err = await response.json().catch(() => null);
+            throw new Error(err?.error || 'Server ingestion failed. Check Server logs.');
+        }
+
+        let job: IngestJob = await response.json();
+        const jobId = job.id;
+        let cancelRequested = false;
+        while (job.status === 'queued' || job.status === 'running') {
+            if (options.signal?.aborted && !cancelRequested) {
+                cancelRequested = true;
+                await fetch(`${settings.serverUrl}/ingest/jobs/${jobId}/cancel`, { method: 'POST' });
+            }
+            await new Promise(resolve => setTimeout(resolve, INGEST_POLL_MS));
+            const statusResponse = await fetch(`${settings.serverUrl}/ingest/jobs/${jobId}`);
+            if (!statusResponse.ok) throw new Error(`Ingestion job lost (${statusResponse.status}). Check Server logs.`);
+            job = await statusResponse.json();
+            options.onProgress?.(job);
+        }
+
+        if (job.status === 'cancelled') throw new Error("ABORTED");
+        if (job.status === 'failed') throw new Error(job.error || 'Server ingestion failed. Check Server logs.');
+        console.log(`Server responded: ${job.embedded} chunks indexed.`);
+        return job.summary || [];
     } catch (e: any) {
         console.error("Central DB Error:", e);
         throw e;
     }
 };
 
+/**
+ * Lists indexed documents with their chunk counts, category and last ingest time.
+ */
+export const listDocuments = async (): Promise<DocumentStatus[]> => {
+    const settings = getSettings();
+    const response = await fetch(`${settings.serverUrl}/documents`);
+    if (!response.ok) throw new Error(`Failed to list documents (${response.status})`);
+    const docs = await response.json();
+    return docs.map((d: any) => ({
+        name: d.sourceId,
+        status: 'indexed',
+        chunks: d.chunks,
+        category: d.category,
+        subCategory: d.subCategory,
+        ingestedAt: d.ingestedAt
+    }));
+};
+
+/**
+ * Removes every chunk of one document from the central index.
+ */
+export const deleteDocument = async (sourceId: string): Promise<number> => {
+    const settings = getSettings();
+    const response = await fetch(`${settings.serverUrl}/documents/${encodeURIComponent(sourceId)}`, { method: 'DELETE' });
+    if (!response.ok) {
+        const err = await response.json().catch(() => null);
+        throw new Error(err?.error || `Failed to delete document (${response.status})`);
+    }
+    const data = await response.json();
+    return data.deleted || 0;
+};
+
+/**
+ * Starts (or resumes) the server job that re-embeds the whole index with the current embedding model.
+ */
+export const startReembed = async (): Promise<ReembedJob> => {
+    const settings = getSettings();
+    const response = await fetch(`${settings.serverUrl}/reembed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            configuration: {
+                ollamaBaseUrl: settings.ollamaBaseUrl,
+                embeddingModel: settings.embeddingModel,
+                embeddingBatchSize: settings.embeddingBatchSize,
+                embeddingConcurrency: settings.embeddingConcurrency
+            }
+        })
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) throw new Error(data?.error || `Failed to start re-embedding (${response.status})`);
+    return data;
+};
+
+export const getReembedJob = async (): Promise<ReembedJob> => {
+    const settings = getSettings();
+    const response = await fetch(`${settings.serverUrl}/reembed`);
+    if (!response.ok) throw new Error(`Failed to read re-embed status (${response.status})`);
+    return response.json();
+};
+
+/**
+ * Pauses the re-embed job after its current batch. Starting it again resumes from there.
+ */
+export const stopReembed = async (): Promise<ReembedJob> => {
+    const settings = getSettings();
+    const response = await fetch(`${settings.serverUrl}/reembed/stop`, { method: 'POST' });
+    if (!response.ok) throw new Error(`Failed to stop re-embedding (${response.status})`);
+    return response.json();
+};
+
+/**
+ * Runs the pending server schema migrations (the server backs up every row first).
+ */
+export const migrateSchema = async (): Promise<{ from: number; to: number; rows: number; backupFile: string | null }> => {
+    const settings = getSettings();
+    const response = await fetch(`${settings.serverUrl}/schema/migrate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ confirm: true })
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) throw new Error(data?.error || `Schema migration failed (${response.status})`);
+    return data;
+};
+
 /**
  * Loads chunk count from server (instead of full download).
  */
@@ -133,23 +259,48 @@ export const deleteBenchmarkRun = async (id: string): Promise<void> => {
 };
 
 // --- Fine-Tuning Operations ---
+/**
+ * Creates or replaces a feedback record (re-rating the same answer keeps its original createdAt).
+ */
 export const saveFineTuningRecord = async (record: FineTuningRecord): Promise<void> => {
     const database = await getDB();
-    await database.collection<FineTuningRecord>('fine_tuning_dataset').insertOne(record);
+    const collection = database.collection<FineTuningRecord>('fine_tuning_dataset');
+    const existing = await collection.findOne(record.id);
+    await collection.insertOne({ ...record, createdAt: existing?.createdAt });
 };
 
-export const exportFineTuningDataset = async (): Promise<string> => {
+/**
+ * Exports feedback as JSONL. Positively rated answers become chat samples;
+ * with `includeRejected`, negatively rated answers are added as separate samples
+ * whose answer sits under `rejected` instead of in `messages`.
+ */
+export const exportFineTuningDataset = async (includeRejected = false): Promise<string> => {
     const database = await getDB();
     const records = await database.collection<FineTuningRecord>('fine_tuning_dataset').find({});
-    return records.map(r => JSON.stringify({
-        messages: [
-            { role: "user", content: r.prompt },
-            { role: "assistant", content: r.response }
-        ],
-        context: r.context,
-        score: r.score,
-        metadata: { source_ids: r.sourceIds, model: r.model }
-    })).join('\n');
+    return records
+        .filter(r => r.score > 0 || (includeRejected && r.score < 0))
+        .map(r => {
+            const metadata = { source_ids: r.sourceIds, model: r.model };
+            if (r.score < 0) {
+                return JSON.stringify({
+                    messages: [{ role: "user", content: r.prompt }],
+                    rejected: { role: "assistant", content: r.response },
+                    context: r.context,
+                    score: r.score,
+                    metadata
+                });
+            }
+            return JSON.stringify({
+                messages: [
+                    { role: "user", content: r.prompt },
+                    { role: "assistant", content: r.response }
+                ],
+                context: r.context,
+                score: r.score,
+                metadata
+            });
+        })
+        .join('\n');
 };
 
 export const getFineTuningCount = async (): Promise<number> => {
@@ -157,6 +308,143 @@ export const getFineTuningCount = async (): Promise<number> => {
     return database.collection('fine_tuning_dataset').count();
 };
 
+// --- Embedding Cache ---
+// Vectors embedded in the browser (benchmark scoring) keyed by model + normalized text, LRU by `updatedAt`.
+const EMBEDDING_CACHE_MAX_ENTRIES = 2000;
+const embeddingCacheStats = { hits: 0, misses: 0, evictions: 0 };
+
+const embeddingCacheKey = (model: string, text: string) =>
+    hashText(`${model}\u0000${text.normalize('NFC').replace(/\s+/g, ' ').trim()}`);
+
+export const getCachedEmbedding = async (model: string, text: string): Promise<number[] | null> => {
+    const collection = (await getDB()).collection<EmbeddingCacheEntry>('embedding_cache');
+    const entry = await collection.findOne(embeddingCacheKey(model, text));
+    if (!entry) {
+        embeddingCacheStats.misses++;
+        return null;
+    }
+    embeddingCacheStats.hits++;
+    collection.updateOne(entry.id, {}).catch(() => {}); // Refresh updatedAt (recency)
+    return entry.vector;
+};
+
+/**
+ * Stores a vector and evicts the least recently used tenth of the cache once it exceeds its limit.
+ */
+export const cacheEmbedding = async (model: string, text: string, vector: number[]): Promise<void> => {
+    const collection = (await getDB()).collection<EmbeddingCacheEntry>('embedding_cache');
+    await collection.insertOne({ id: embeddingCacheKey(model, text), model, vector });
+
+    const count = await collection.count();
+    if (count <= EMBEDDING_CACHE_MAX_ENTRIES) return;
+    const entries = await collection.find({});
+    const excess = count - Math.floor(EMBEDDING_CACHE_MAX_ENTRIES * 0.9);
+    const oldest = entries.sort((a, b) => (a.updatedAt || 0) - (b.updatedAt || 0)).slice(0, excess);
+    for (const entry of oldest) await collection.deleteOne(entry.id);
+    embeddingCacheStats.evictions += oldest.length;
+};
+
+export const getLocalEmbeddingCacheStats = async (): Promise<EmbeddingCacheStats> => {
+    const entries = await (await getDB()).collection('embedding_cache').count();
+    const lookups = embeddingCacheStats.hits + embeddingCacheStats.misses;
+    return {
+        entries,
+        maxEntries: EMBEDDING_CACHE_MAX_ENTRIES,
+        ...embeddingCacheStats,
+        hitRate: lookups > 0 ? embeddingCacheStats.hits / lookups : 0
+    };
+};
+
+export const getServerEmbeddingCacheStats = async (): Promise<EmbeddingCacheStats> => {
+    const settings = getSettings();
+    const response = await fetch(`${settings.serverUrl}/embedding-cache`);
+    if (!response.ok) throw new Error(`Failed to read embedding cache stats (${response.status})`);
+    return response.json();
+};
+
+/**
+ * Empties both the browser and the server embedding cache.
+ */
+export const clearEmbeddingCaches = async (): Promise<void> => {
+    const settings = getSettings();
+    await (await getDB()).collection('embedding_cache').clear();
+    Object.assign(embeddingCacheStats, { hits: 0, misses: 0, evictions: 0 });
+    await fetch(`${settings.serverUrl}/embedding-cache`, { method: 'DELETE' });
+};
+
+// --- Synonym Dictionary ---
+// Seeded once from synonymsData.ts; from then on the stored entries are the dictionary.
+// Kept in memory for query expansion and dropped on every change.
+// The seeded marker lives in the same database, so clearing it also re-seeds the dictionary.
+const SYNONYMS_SEEDED_ID = 'synonyms_seeded';
+let synonymCache: SynonymEntry[] | null = null;
+
+const synonymsCollection = async () => (await getDB()).collection<SynonymEntry>('synonyms');
+
+export const loadSynonyms = async (): Promise<SynonymEntry[]> => {
+    if (synonymCache) return synonymCache;
+    const database = await getDB();
+    const collection = database.collection<SynonymEntry>('synonyms');
+    const appState = database.collection<BaseDocument>('app_state');
+    if (!(await appState.findOne(SYNONYMS_SEEDED_ID))) {
+        // A dictionary stored before the marker existed is kept as it is
+        if ((await collection.find({})).length === 0) await collection.insertMany(defaultSynonymEntries());
+        await appState.insertOne({ id: SYNONYMS_SEEDED_ID });
+    }
+    synonymCache = (await collection.find({})).sort((a, b) => a.term.localeCompare(b.term, 'fa'));
+    return synonymCache;
+};
+
+export const saveSynonymEntry = async (entry: SynonymEntry): Promise<void> => {
+    await (await synonymsCollection()).insertOne(entry);
+    synonymCache = null;
+};
+
+export const deleteSynonymEntry = async (id: string): Promise<void> => {
+    await (await synonymsCollection()).deleteOne(id);
+    synonymCache = null;
+};
+
+/**
+ * Adds imported entries (an entry for an existing term replaces it).
+ * With `replace`, the current dictionary is emptied first.
+ */
+export const importSynonyms = async (entries: SynonymEntry[], replace = false): Promise<void> => {
+    const collection = await synonymsCollection();
+    if (replace) await collection.clear();
+    await collection.insertMany(entries);
+    synonymCache = null;
+};
+
+/** Drops every edit and restores the built-in dictionary. */
+export const resetSynonyms = async (): Promise<void> => {
+    await importSynonyms(defaultSynonymEntries(), true);
+};
+
+// --- Corpus Vocabulary ---
+// Index terms of the server's keyword index, used to spell-check queries. Refreshed every few minutes
+// so newly uploaded documents are picked up.
+const VOCABULARY_TTL_MS = 5 * 60 * 1000;
+let vocabularyCache: { terms: Map<string, number>; loadedAt: number } | null = null;
+
+/**
+ * Term -> document frequency for the indexed corpus. Returns the previous (or an empty) vocabulary
+ * when the server cannot be reached, which turns spelling correction off instead of failing the search.
+ */
+export const loadCorpusVocabulary = async (): Promise<Map<string, number>> => {
+    if (vocabularyCache && Date.now() - vocabularyCache.loadedAt < VOCABULARY_TTL_MS) return vocabularyCache.terms;
+    try {
+        const response = await fetch(`${getSettings().serverUrl}/vocabulary`);
+        if (!response.ok) throw new Error(`Vocabulary request failed (${response.status})`);
+        const data: { terms: [string, number][] } = await response.json();
+        vocabularyCache = { terms: new Map(data.terms), loadedAt: Date.now() };
+    } catch (e) {
+        console.warn("Corpus vocabulary unavailable, spelling correction is off:", e);
+        return vocabularyCache?.terms || new Map();
+    }
+    return vocabularyCache.terms;
+};
+
 export const exportDatabaseToBlob = async (): Promise<Blob> => {
     const conversations = await loadConversationsFromDB();
     return new Blob([JSON.stringify(conversations, null, 2)], { type: 'application/json' });
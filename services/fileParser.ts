@@ -1,12 +1,15 @@
 
-import { KnowledgeChunk, BenchmarkCase, DocCategory } from '../types';
-import { cleanAndNormalizeText, classifyDocument, extractMetadata, smartChunking, htmlToMarkdown, stripHtml } from './textProcessor';
+import { KnowledgeChunk, BenchmarkCase, DocCategory, IngestSummary, ParseStep, ChunkingStrategy, SectionChunk, SynonymEntry } from '../types';
+import { cleanAndNormalizeText, classifyDocument, extractMetadata, smartChunking, chunkMarkdownSections, chunkQA, detectChunkingStrategy, formatSectionBreadcrumb, htmlToMarkdown, stripHtml, hashText } from './textProcessor';
 // import { getEmbedding } from './ollama'; // REMOVED: Server handles embeddings now
 import { saveChunksToDB } from './database';
 import { getSettings } from './settings';
+import { synonymsFromCsvRows, synonymsFromJson } from './synonyms';
 
-// Global definition for the mammoth library
+// Global definitions for the mammoth, pdf.js and SheetJS libraries
 declare var mammoth: any;
+declare var pdfjsLib: any;
+declare var XLSX: any;
 
 const isSystemId = (text: string): boolean => {
     if (!text) return false;
@@ -38,6 +41,16 @@ const parseCSVGeneric = (text: string): string[][] => {
     return rows;
 };
 
+/**
+ * Reads a synonym dictionary file: CSV (term, synonyms separated by "|", bidirectional) or JSON.
+ */
+export const parseSynonymsFile = async (file: File): Promise<SynonymEntry[]> => {
+    const text = (await file.text()).replace(/^\uFEFF/, '');
+    const entries = file.name.toLowerCase().endsWith('.json') ? synonymsFromJson(text) : synonymsFromCsvRows(parseCSVGeneric(text));
+    if (entries.length === 0) throw new Error("هیچ مترادف معتبری در فایل یافت نشد.");
+    return entries;
+};
+
 export const parseBenchmarkCSV = async (file: File): Promise<BenchmarkCase[]> => {
     const text = await file.text();
     const rows = parseCSVGeneric(text);
@@ -58,16 +71,34 @@ export const parseBenchmarkCSV = async (file: File): Promise<BenchmarkCase[]> =>
     return cases;
 };
 
-export const parseTicketCSV = async (file: File): Promise<BenchmarkCase[]> => {
-    const text = await file.text();
-    const rows = parseCSVGeneric(text);
-    if (rows.length < 2) throw new Error("فایل خالی یا نامعتبر است");
-    const headers = rows[0].map(h => h.trim().toLowerCase());
+interface TicketColumns {
+    ticketIdx: number;
+    bodyIdx: number;
+    titleIdx: number;
+}
+
+/** Column positions of a helpdesk ticket export, or null when the header row doesn't look like one. */
+const findTicketColumns = (headerRow: string[]): TicketColumns | null => {
+    const headers = headerRow.map(h => String(h).trim().toLowerCase());
     const getIdx = (candidates: string[]) => { for (const c of candidates) { const idx = headers.indexOf(c); if (idx !== -1) return idx; } return -1; };
     const ticketIdx = getIdx(['ticketnumber', 'ticketnum', 'id', 'شماره تیکت']);
     const bodyIdx = getIdx(['body', 'description', 'text', 'متن']);
     const titleIdx = getIdx(['title', 'subject', 'عنوان']);
-    if (ticketIdx === -1 || bodyIdx === -1) throw new Error("ستون‌های TicketNumber یا Body یافت نشد.");
+    if (ticketIdx === -1 || bodyIdx === -1) return null;
+    return { ticketIdx, bodyIdx, titleIdx };
+};
+
+export const parseTicketCSV = async (file: File): Promise<BenchmarkCase[]> => {
+    const text = await file.text();
+    const rows = parseCSVGeneric(text);
+    if (rows.length < 2) throw new Error("فایل خالی یا نامعتبر است");
+    const columns = findTicketColumns(rows[0]);
+    if (!columns) throw new Error("ستون‌های TicketNumber یا Body یافت نشد.");
+    return rowsToTicketCases(rows, columns);
+};
+
+/** Groups ticket rows (header first) by ticket number: the last row is the question, earlier ones the support replies. */
+const rowsToTicketCases = (rows: string[][], { ticketIdx, bodyIdx, titleIdx }: TicketColumns): BenchmarkCase[] => {
     const ticketGroups = new Map<string, any[]>();
     for (let i = 1; i < rows.length; i++) {
         const row = rows[i];
@@ -94,89 +125,337 @@ export const parseTicketFile = async (file: File, onProgress: (step: string, inf
     // Ticket parsing still happens locally, but we don't generate embeddings here.
     // We send content to server for ingestion if needed, but for 'ticket analysis' mode it might be kept separate.
     // However, if we want to save to Central DB:
-    const ticketCases = await parseTicketCSV(file);
+    return ticketCasesToChunks(await parseTicketCSV(file), file.name);
+};
+
+const ticketCasesToChunks = (ticketCases: BenchmarkCase[], fileName: string): KnowledgeChunk[] => {
     const chunks: KnowledgeChunk[] = [];
     for (let i = 0; i < ticketCases.length; i++) {
         const ticket = ticketCases[i];
         const ticketId = String(ticket.id).replace('ticket-', '');
         const cleanedText = cleanAndNormalizeText(`تیکت ${ticketId}:\n${ticket.question}`);
         chunks.push({
-            id: `ticket-chunk-${ticketId}-${Date.now()}`,
+            id: `ticket-${hashText(`${fileName}\u0000${ticketId}\u0000${cleanedText}`)}`,
             content: cleanedText,
             searchContent: `تیکت ${ticketId} ${cleanedText}`,
             embedding: [], // Empty - Server will generate
             metadata: { category: 'troubleshooting', subCategory: 'general_ticket', tags: ['ticket', ticketId] },
-            source: { id: file.name, title: `تیکت ${ticketId}`, snippet: ticket.question.substring(0, 100), page: 1 }
+            source: { id: fileName, title: `تیکت ${ticketId}`, snippet: ticket.question.substring(0, 100), page: 1, position: ticketId }
         });
     }
     return chunks;
 };
 
-export const parseFiles = async (fileList: FileList, onProgress?: (fileName: string, step: 'reading' | 'embedding' | 'complete' | 'error', info?: any) => void, signal?: AbortSignal): Promise<KnowledgeChunk[]> => {
+// --- PDF ---
+
+interface PdfPage {
+    page: number;
+    text: string;
+    imageOnly: boolean;
+}
+
+// A page with fewer visible characters than this is checked for scanned images
+const PDF_MIN_PAGE_CHARS = 20;
+const RTL_CHARS = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/g;
+
+/**
+ * Rebuilds the reading order of a page from pdf.js text items.
+ * Items are grouped into lines by baseline, lines run top to bottom, and items inside a line
+ * run right-to-left when the line is mostly Persian/Arabic (pdf.js already puts each item's
+ * characters in logical order, but emits the items themselves in drawing order).
+ */
+const pdfItemsToText = (items: any[]): string => {
+    const glyphs = items
+        .filter(it => typeof it.str === 'string' && it.str.length > 0)
+        .map(it => ({
+            // NFKC maps Arabic presentation forms (common in PDF fonts) back to regular letters
+            str: it.str.normalize('NFKC'),
+            x: it.transform[4],
+            y: it.transform[5],
+            width: it.width || 0,
+            size: Math.hypot(it.transform[2], it.transform[3]) || it.height || 10
+        }))
+        .sort((a, b) => b.y - a.y);
+
+    const lines: (typeof glyphs)[] = [];
+    for (const glyph of glyphs) {
+        const line = lines[lines.length - 1];
+        if (line && Math.abs(line[0].y - glyph.y) <= line[0].size * 0.5) line.push(glyph);
+        else lines.push([glyph]);
+    }
+
+    let text = '';
+    lines.forEach((line, idx) => {
+        const lineText = line.map(g => g.str).join('');
+        const rtl = (lineText.match(RTL_CHARS) || []).length > (lineText.match(/[A-Za-z]/g) || []).length;
+        line.sort((a, b) => rtl ? b.x - a.x : a.x - b.x);
+
+        let out = '';
+        line.forEach((g, i) => {
+            const prev = line[i - 1];
+            // Some PDFs split words into per-glyph items: only a visible gap becomes a space
+            const gap = prev ? (rtl ? prev.x - (g.x + g.width) : g.x - (prev.x + prev.width)) : 0;
+            if (prev && gap > g.size * 0.15 && !out.endsWith(' ') && !g.str.startsWith(' ')) out += ' ';
+            out += g.str;
+        });
+
+        if (idx > 0) {
+            const prevLine = lines[idx - 1];
+            // A gap clearly larger than the line height starts a new paragraph
+            text += prevLine[0].y - line[0].y > prevLine[0].size * 1.8 ? '\n\n' : '\n';
+        }
+        text += out.trim();
+    });
+    return text;
+};
+
+/**
+ * Extracts the text of every page. Pages without a text layer that draw images are flagged
+ * `imageOnly` (scanned pages; OCR is not done here).
+ */
+const extractPdfPages = async (file: File): Promise<PdfPage[]> => {
+    if (typeof pdfjsLib === 'undefined') throw new Error("کتابخانه pdf.js بارگذاری نشده است.");
+    const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    const imageOps = [pdfjsLib.OPS.paintImageXObject, pdfjsLib.OPS.paintInlineImageXObject, pdfjsLib.OPS.paintImageMaskXObject];
+    const pages: PdfPage[] = [];
+    try {
+        for (let n = 1; n <= pdf.numPages; n++) {
+            const page = await pdf.getPage(n);
+            const content = await page.getTextContent();
+            const text = pdfItemsToText(content.items);
+            let imageOnly = false;
+            if (text.replace(/\s/g, '').length < PDF_MIN_PAGE_CHARS) {
+                const operators = await page.getOperatorList();
+                imageOnly = operators.fnArray.some((fn: number) => imageOps.includes(fn));
+            }
+            pages.push({ page: n, text, imageOnly });
+            page.cleanup();
+        }
+    } finally {
+        await pdf.destroy();
+    }
+    return pages;
+};
+
+// --- SPREADSHEETS ---
+
+const sheetToRows = (sheet: any): string[][] =>
+    (XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '', raw: false, blankrows: false }) as any[][])
+        .map(row => row.map(cell => String(cell ?? '').trim()))
+        .filter(row => row.some(cell => cell));
+
+// Cells become single-line markdown table cells
+const toTableCell = (cell: string) => cleanAndNormalizeText(cell).replace(/\s*\n\s*/g, ' ').replace(/\|/g, '/');
+
+/**
+ * Chunks a reference sheet (fee table, symbol list...) as markdown tables of whole rows.
+ * Every chunk repeats the sheet name and header row, so a chunk stays readable on its own.
+ */
+const tableToChunks = (fileName: string, sheetName: string, sheetIndex: number, rows: string[][], chunkSize: number): KnowledgeChunk[] => {
+    const width = Math.max(...rows.map(r => r.length));
+    const header = Array.from({ length: width }, (_, i) => toTableCell(rows[0][i] || '') || `ستون ${i + 1}`);
+    const preamble = `### ${sheetName}\n\n| ${header.join(' | ')} |\n|${header.map(() => ' --- ').join('|')}|`;
+    const rowLines = rows.slice(1).map(r => `| ${Array.from({ length: width }, (_, i) => toTableCell(r[i] || '')).join(' | ')} |`);
+
+    const sheetText = cleanAndNormalizeText(rows.map(r => r.join(' ')).join('\n'));
+    const sheetClass = classifyDocument(sheetText, fileName);
+    const metadata = extractMetadata(sheetText, fileName, sheetClass.category, sheetClass.subCategory);
+
+    const chunks: KnowledgeChunk[] = [];
+    let group: string[] = [];
+    let groupStart = 1;
+    const flush = (endRow: number) => {
+        if (group.length === 0) return;
+        const content = `${preamble}\n${group.join('\n')}`;
+        chunks.push({
+            id: hashText(`${fileName}\u0000${sheetName}\u0000${content}`),
+            content,
+            searchContent: content,
+            embedding: [],
+            metadata,
+            source: { id: fileName, title: `${fileName} (${sheetName})`, snippet: group[0].substring(0, 80), page: sheetIndex + 1, position: `${sheetName}:${groupStart}-${endRow}` }
+        });
+        group = [];
+        groupStart = endRow + 1;
+    };
+    rowLines.forEach((line, i) => {
+        if (group.length > 0 && preamble.length + group.join('\n').length + line.length + 1 > chunkSize) flush(i);
+        group.push(line);
+    });
+    flush(rowLines.length);
+    return chunks;
+};
+
+/**
+ * Parses every sheet of an .xlsx/.xls workbook. Sheets whose header matches a ticket export
+ * go down the ticket path; all other sheets become row-grouped tables.
+ */
+const parseSpreadsheet = async (file: File, chunkSize: number): Promise<KnowledgeChunk[]> => {
+    if (typeof XLSX === 'undefined') throw new Error("کتابخانه SheetJS بارگذاری نشده است.");
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const chunks: KnowledgeChunk[] = [];
+    const seenIds = new Set<string>();
+
+    (workbook.SheetNames as string[]).forEach((sheetName, sheetIndex) => {
+        const rows = sheetToRows(workbook.Sheets[sheetName]);
+        if (rows.length < 2) return;
+        const ticketColumns = findTicketColumns(rows[0]);
+        const sheetChunks = ticketColumns
+            ? ticketCasesToChunks(rowsToTicketCases(rows, ticketColumns), file.name)
+            : tableToChunks(file.name, sheetName, sheetIndex, rows, chunkSize);
+        for (const chunk of sheetChunks) {
+            if (seenIds.has(chunk.id)) continue;
+            seenIds.add(chunk.id);
+            chunks.push(chunk);
+        }
+    });
+    return chunks;
+};
+
+/** Whether parseFiles can read this file (other files are skipped silently). */
+export const isParsableFile = (file: File): boolean =>
+    /\.(md|txt|json|csv|log|docx|pdf|xlsx|xls)$/i.test(file.name) || file.type.startsWith('text/');
+
+/**
+ * Splits a document into parent chunks with the strategy chosen for the upload
+ * ('auto' detects headings / Q&A blocks per file).
+ */
+const chunkByStrategy = (text: string, fileName: string, strategy: ChunkingStrategy, chunkSize: number, chunkOverlap: number): { strategy: ChunkingStrategy; parents: SectionChunk[] } => {
+    const resolved = strategy === 'auto' ? detectChunkingStrategy(text, fileName) : strategy;
+    if (resolved === 'structure') return { strategy: resolved, parents: chunkMarkdownSections(text, chunkSize, chunkOverlap) };
+    const parents = resolved === 'qa' ? chunkQA(text, chunkSize, chunkOverlap) : smartChunking(text, chunkSize, chunkOverlap);
+    return { strategy: resolved, parents: parents.map(p => ({ text: p, sectionPath: [] })) };
+};
+
+export const parseFiles = async (fileList: FileList, onProgress?: (fileName: string, step: ParseStep, info?: any) => void, signal?: AbortSignal, replaceSourceId?: string, chunkingStrategy: ChunkingStrategy = 'auto'): Promise<KnowledgeChunk[]> => {
   const settings = getSettings();
   const chunks: KnowledgeChunk[] = [];
   const files = Array.from(fileList);
   
   for (const file of files) {
     if (signal?.aborted) throw new Error("ABORTED");
+    if (!isParsableFile(file)) continue;
     try {
       if (onProgress) onProgress(file.name, 'reading', 'Initializing stream...');
       let rawText = '';
+      let cleanedText = '';
+      // Start offset of each page inside cleanedText (PDF only; other formats are one page)
+      let pageStarts: { page: number; offset: number }[] = [];
       
       if (file.name.toLowerCase().endsWith('.csv')) {
           // CSV Ticket logic
           const ticketChunks = await parseTicketFile(file, (step, info) => { if (onProgress) onProgress(file.name, step as any, info); });
           if (ticketChunks.length > 0) {
-              chunks.push(...ticketChunks);
-              if (onProgress) onProgress(file.name, 'complete', { count: ticketChunks.length, category: 'troubleshooting' });
               // Send to server immediately to avoid huge memory usage
-              await saveChunksToDB(ticketChunks);
+              const summary = await saveChunksToDB(ticketChunks, replaceSourceId, { signal, onProgress: job => onProgress?.(file.name, 'embedding', job) });
+              chunks.push(...ticketChunks);
+              if (onProgress) onProgress(file.name, 'complete', { count: ticketChunks.length, category: 'troubleshooting', summary });
               continue;
           }
       }
 
-      if (file.name.toLowerCase().endsWith('.docx')) {
-        const arrayBuffer = await file.arrayBuffer();
-        const result = await mammoth.convertToHtml({ arrayBuffer: arrayBuffer });
-        rawText = htmlToMarkdown(result.value);
-      } else if (file.type.startsWith('text/') || file.name.match(/\.(md|txt|json|csv|log)$/i)) {
-        rawText = await file.text();
-      } else continue;
+      if (/\.xlsx?$/i.test(file.name)) {
+          // All sheets go to the server in one upsert, so the workbook is a single source
+          const sheetChunks = await parseSpreadsheet(file, settings.chunkSize);
+          if (sheetChunks.length === 0) throw new Error("هیچ برگه‌ای با داده در فایل یافت نشد.");
+          if (signal?.aborted) throw new Error("ABORTED");
+          if (onProgress) onProgress(file.name, 'embedding', 'Sending to server...');
+          const summary = await saveChunksToDB(sheetChunks, replaceSourceId, { signal, onProgress: job => onProgress?.(file.name, 'embedding', job) });
+          chunks.push(...sheetChunks);
+          if (onProgress) onProgress(file.name, 'complete', { count: sheetChunks.length, category: sheetChunks[0].metadata.category, summary });
+          continue;
+      }
+
+      if (file.name.toLowerCase().endsWith('.pdf')) {
+        const pages = await extractPdfPages(file);
+        const imageOnlyPages = pages.filter(p => p.imageOnly).map(p => p.page);
+        if (imageOnlyPages.length > 0 && onProgress) onProgress(file.name, 'unparseable', { pages: imageOnlyPages, totalPages: pages.length });
+
+        for (const page of pages) {
+            const pageText = cleanAndNormalizeText(page.text);
+            if (!pageText) continue;
+            if (cleanedText) cleanedText += '\n\n';
+            pageStarts.push({ page: page.page, offset: cleanedText.length });
+            cleanedText += pageText;
+        }
+        if (!cleanedText) {
+            throw new Error(imageOnlyPages.length > 0
+                ? "PDF فاقد لایه متنی است (اسکن‌شده). ابتدا OCR انجام دهید."
+                : "متنی در PDF یافت نشد.");
+        }
+      } else {
+        if (file.name.toLowerCase().endsWith('.docx')) {
+          const arrayBuffer = await file.arrayBuffer();
+          const result = await mammoth.convertToHtml({ arrayBuffer: arrayBuffer });
+          rawText = htmlToMarkdown(result.value);
+        } else if (file.type.startsWith('text/') || file.name.match(/\.(md|txt|json|csv|log)$/i)) {
+          rawText = await file.text();
+        } else continue;
+        cleanedText = cleanAndNormalizeText(rawText);
+      }
 
-      const cleanedText = cleanAndNormalizeText(rawText);
+      const pageAt = (offset: number): number => {
+          let page = pageStarts[0]?.page || 1;
+          for (const start of pageStarts) {
+              if (start.offset > offset) break;
+              page = start.page;
+          }
+          return page;
+      };
       const initialClass = classifyDocument(cleanedText, file.name);
       const fileMetadata = extractMetadata(cleanedText, file.name, initialClass.category, initialClass.subCategory);
       
-      let parentChunks = smartChunking(cleanedText, settings.chunkSize, settings.chunkOverlap);
+      const { strategy, parents: parentChunks } = chunkByStrategy(cleanedText, file.name, chunkingStrategy, settings.chunkSize, settings.chunkOverlap);
+      const documentHash = hashText(cleanedText);
       
       const fileChunks: KnowledgeChunk[] = [];
+      const seenIds = new Set<string>();
+      // Chunks come back in document order; locating their opening text maps them onto pages
+      let parentCursor = 0;
 
       for (let i = 0; i < parentChunks.length; i++) {
-        const childChunks = smartChunking(parentChunks[i], settings.childChunkSize, 100);
+        const { text: parentText, sectionPath } = parentChunks[i];
+        const parentStart = cleanedText.indexOf(parentText.substring(0, 40), parentCursor);
+        if (parentStart >= 0) parentCursor = parentStart;
+        // Parent and child texts both carry the heading trail, so it is embedded and shown to the LLM
+        const breadcrumb = formatSectionBreadcrumb(sectionPath);
+        const parentContent = breadcrumb + parentText;
+        const childChunks = smartChunking(parentText, settings.childChunkSize, 100);
         for (let j = 0; j < childChunks.length; j++) {
+            const childStart = Math.max(0, parentText.indexOf(childChunks[j].substring(0, 40)));
+            const childContent = breadcrumb + childChunks[j];
+            // Content-addressed ID: re-uploading the same text yields the same ID (server upserts)
+            const id = hashText(`${file.name}\u0000${parentContent}\u0000${childContent}`);
+            if (seenIds.has(id)) continue; // Repeated boilerplate inside one file
+            seenIds.add(id);
+
             // NO EMBEDDING CALL HERE. Just prepare data.
             fileChunks.push({
-                id: `${file.name}-${i}-${j}-${Date.now()}`,
-                content: parentChunks[i],      
-                searchContent: childChunks[j], 
+                id,
+                content: parentContent,      
+                searchContent: childContent, 
                 embedding: [], // Server handles this!
-                metadata: fileMetadata,
-                source: { id: file.name, title: file.name, snippet: childChunks[j].substring(0, 80), page: 1 }
+                metadata: sectionPath.length > 0 ? { ...fileMetadata, sectionPath } : fileMetadata,
+                source: { id: file.name, title: file.name, snippet: childChunks[j].substring(0, 80), page: pageAt(parentCursor + childStart), position: `${i}-${j}`, contentHash: documentHash }
             });
         }
       }
       
+      if (signal?.aborted) throw new Error("ABORTED");
       if (onProgress) onProgress(file.name, 'embedding', 'Sending to server...');
       
-      // Batch send to server
+      // Batch send to server; the server embeds it as a job and reports IngestJob progress
+      let summary: IngestSummary[] = [];
       if (fileChunks.length > 0) {
-          await saveChunksToDB(fileChunks);
+          summary = await saveChunksToDB(fileChunks, replaceSourceId, { signal, onProgress: job => onProgress?.(file.name, 'embedding', job) });
           chunks.push(...fileChunks);
       }
 
-      if (onProgress) onProgress(file.name, 'complete', { count: fileChunks.length, category: initialClass.category });
+      if (onProgress) onProgress(file.name, 'complete', { count: fileChunks.length, category: initialClass.category, strategy, summary });
 
     } catch (err: any) { 
+        // Cancellation stops the whole batch; files already sent stay indexed
+        if (err.message === "ABORTED") throw err;
         console.error(err);
         if (onProgress) onProgress(file.name, 'error', err.message); 
     }
@@ -0,0 +1,70 @@
+import { KnowledgeChunk } from '../types';
+import { cleanAndNormalizeText } from './textProcessor';
+
+/**
+ * Similarity floor between two passages of the same document, whatever their wording.
+ * Makes MMR prefer a relevant passage from another file over a second one from the same file.
+ */
+const SAME_SOURCE_SIMILARITY = 0.5;
+
+export interface MmrOutcome {
+    selected: KnowledgeChunk[];
+    redundant: KnowledgeChunk[]; // Would have made the top-k by relevance alone, but repeat a selected passage
+}
+
+const toTermSet = (text: string): Set<string> =>
+    new Set(cleanAndNormalizeText(text).toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter(w => w.length > 1));
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    a.forEach(term => { if (b.has(term)) shared++; });
+    return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Maximal Marginal Relevance re-selection: repeatedly picks the candidate with the best
+ * `lambda * relevance - (1 - lambda) * max similarity to the already picked ones`.
+ * Similarity is term overlap (Jaccard) of the passages, raised to SAME_SOURCE_SIMILARITY for passages of one document.
+ * @param candidates Passages sorted by relevance, best first
+ * @param k Passages to keep
+ * @param lambda 1 = relevance only (MMR off), lower values favour diversity
+ * @param relevanceOf Score used as relevance (rerank or hybrid score)
+ */
+export const mmrSelect = (
+    candidates: KnowledgeChunk[],
+    k: number,
+    lambda: number,
+    relevanceOf: (c: KnowledgeChunk) => number
+): MmrOutcome => {
+    if (lambda >= 1 || candidates.length <= 1) return { selected: candidates.slice(0, k), redundant: [] };
+
+    const maxRelevance = Math.max(...candidates.map(relevanceOf)) || 1;
+    const pool = candidates.map(chunk => ({
+        chunk,
+        relevance: relevanceOf(chunk) / maxRelevance,
+        terms: toTermSet(chunk.content)
+    }));
+    const similarity = (a: typeof pool[number], b: typeof pool[number]) =>
+        Math.max(jaccard(a.terms, b.terms), a.chunk.source.id === b.chunk.source.id ? SAME_SOURCE_SIMILARITY : 0);
+
+    const picked: typeof pool = [];
+    const remaining = [...pool];
+    while (picked.length < k && remaining.length > 0) {
+        let bestIdx = 0;
+        let bestScore = -Infinity;
+        remaining.forEach((candidate, idx) => {
+            const redundancy = picked.length > 0 ? Math.max(...picked.map(p => similarity(candidate, p))) : 0;
+            const score = lambda * candidate.relevance - (1 - lambda) * redundancy;
+            if (score > bestScore) {
+                bestScore = score;
+                bestIdx = idx;
+            }
+        });
+        picked.push(remaining.splice(bestIdx, 1)[0]);
+    }
+
+    const selected = picked.map(p => p.chunk);
+    const selectedSet = new Set(selected);
+    return { selected, redundant: candidates.slice(0, k).filter(c => !selectedSet.has(c)) };
+};
@@ -1,5 +1,6 @@
 
 import { getSettings } from './settings';
+import { getCachedEmbedding, cacheEmbedding } from './database';
 
 /**
  * Checks connection to LM Studio / OpenAI compatible API.
@@ -37,21 +38,43 @@ export const preWarmModel = async () => {
     return checkOllamaConnection();
 };
 
+export type EmbeddingErrorCode = 'EMPTY_INPUT' | 'HTTP_ERROR' | 'NETWORK_ERROR' | 'INVALID_RESPONSE' | 'DIMENSION_MISMATCH';
+
+/**
+ * Raised instead of returning a placeholder vector, so callers decide how a failed embedding is scored.
+ */
+export class EmbeddingError extends Error {
+    constructor(public code: EmbeddingErrorCode, message: string, public model: string, public status?: number) {
+        super(message);
+        this.name = 'EmbeddingError';
+    }
+}
+
+// Vector size reported by each model, learned from its first successful response
+const embeddingDimensions = new Map<string, number>();
+
 /**
  * Fetches embeddings using OpenAI-compatible /v1/embeddings endpoint.
+ * @throws EmbeddingError on empty input, HTTP/network failure, a malformed response,
+ *         or a vector whose size differs from the one the model reported before.
  */
-export const getEmbedding = async (text: string, isQuery = false) => {
+export const getEmbedding = async (text: string, isQuery = false): Promise<number[]> => {
   const settings = getSettings();
   const modelName = settings.embeddingModel;
   const cleanUrl = settings.ollamaBaseUrl.replace(/\/$/, '');
   
-  if (!text || !text.trim()) return new Array(1024).fill(0);
+  if (!text || !text.trim()) throw new EmbeddingError('EMPTY_INPUT', 'Cannot embed empty text.', modelName);
 
   // Clean text from control characters
   const processedText = text.substring(0, 4000).replace(/[\u0000-\u001F\u007F-\u009F]/g, " ");
 
+  // Benchmark runs embed the same ground truths over and over; serve them from the local cache
+  const cached = await getCachedEmbedding(modelName, processedText).catch(() => null);
+  if (cached) return cached;
+
+  let response: Response;
   try {
-      const response = await fetch(`${cleanUrl}/embeddings`, {
+      response = await fetch(`${cleanUrl}/embeddings`, {
         method: 'POST',
         headers: { 
             'Content-Type': 'application/json'
@@ -61,18 +84,29 @@ export const getEmbedding = async (text: string, isQuery = false) => {
             input: processedText 
         }),
       });
-
-      if (!response.ok) {
-          console.error(`API Error (${response.status}): Check if model "${modelName}" is loaded.`);
-          return new Array(1024).fill(0); 
-      }
-      
-      const data = await response.json();
-      return data.data?.[0]?.embedding || new Array(1024).fill(0);
   } catch (error: any) {
-      console.warn(`Embedding failed: ${error.message}. Returning zero-vector fallback.`);
-      return new Array(1024).fill(0);
+      throw new EmbeddingError('NETWORK_ERROR', `Embedding server unreachable: ${error.message}`, modelName);
   }
+
+  if (!response.ok) {
+      throw new EmbeddingError('HTTP_ERROR', `API Error (${response.status}): Check if model "${modelName}" is loaded.`, modelName, response.status);
+  }
+
+  const data = await response.json().catch(() => null);
+  const embedding: unknown = data?.data?.[0]?.embedding;
+  if (!Array.isArray(embedding) || embedding.length === 0 || embedding.some(v => typeof v !== 'number' || !isFinite(v))) {
+      throw new EmbeddingError('INVALID_RESPONSE', `Model "${modelName}" returned no usable embedding.`, modelName);
+  }
+
+  const knownDimension = embeddingDimensions.get(modelName);
+  if (knownDimension && knownDimension !== embedding.length) {
+      throw new EmbeddingError('DIMENSION_MISMATCH',
+          `Model "${modelName}" returned ${embedding.length} dimensions, expected ${knownDimension}.`, modelName);
+  }
+  embeddingDimensions.set(modelName, embedding.length);
+
+  cacheEmbedding(modelName, processedText, embedding).catch(e => console.warn("Embedding cache write failed:", e));
+  return embedding;
 };
 
 /**
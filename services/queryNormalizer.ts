@@ -0,0 +1,188 @@
+import { QueryCorrection, QueryNormalization } from '../types';
+
+// ==========================================
+// QUERY NORMALIZATION
+// Finglish -> Persian script, English product names -> Persian, and typo correction
+// against the vocabulary of the indexed corpus (edit distance over tokens).
+// ==========================================
+
+/** English product names and their Persian form in the documents. */
+const PRODUCT_NAMES: Record<string, string> = {
+    exir: 'اکسیر',
+    recsar: 'رکسار',
+    etf: 'صندوق قابل معامله'
+};
+
+/** Common Finglish (and English support jargon) typed by agents, with the Persian word meant. */
+const FINGLISH_WORDS: Record<string, string> = {
+    nemishe: 'نمیشه', mishe: 'میشه', nemitunam: 'نمیتونم', nemitoonam: 'نمیتونم', mitunam: 'میتونم',
+    nemikone: 'نمیکنه', mikone: 'میکنه', nemiad: 'نمیاد', miad: 'میاد', nadare: 'نداره', dare: 'داره',
+    nist: 'نیست', hast: 'هست', chera: 'چرا', chetor: 'چطور', chetori: 'چطوری', chejuri: 'چجوری', chejori: 'چجوری',
+    koja: 'کجا', kojast: 'کجاست', chi: 'چی', chiye: 'چیه', kar: 'کار', khata: 'خطا', khataye: 'خطای',
+    moshkel: 'مشکل', gozaresh: 'گزارش', sefaresh: 'سفارش', kharid: 'خرید', forush: 'فروش', foroosh: 'فروش',
+    sahm: 'سهم', saham: 'سهام', hesab: 'حساب', ramz: 'رمز', vorud: 'ورود', vorood: 'ورود', karbar: 'کاربر',
+    sabt: 'ثبت', hazf: 'حذف', sandogh: 'صندوق', sandoogh: 'صندوق', moamele: 'معامله', moamelat: 'معاملات',
+    mande: 'مانده', variz: 'واریز', bardasht: 'برداشت', etebar: 'اعتبار', pardakht: 'پرداخت', taeed: 'تایید',
+    taeid: 'تایید', baz: 'باز', baste: 'بسته', lotfan: 'لطفا', tanzimat: 'تنظیمات', sabegh: 'سابقه',
+    login: 'ورود', logout: 'خروج', password: 'رمز عبور', error: 'خطا', report: 'گزارش', order: 'سفارش'
+};
+
+/** Latin letter groups and the Persian letters they may stand for (longest groups first). */
+const LATIN_LETTERS: [string, string[]][] = [
+    ['kh', ['خ']], ['gh', ['ق', 'غ']], ['ch', ['چ']], ['sh', ['ش']], ['zh', ['ژ']],
+    ['aa', ['ا']], ['oo', ['و']], ['ou', ['و']], ['ee', ['ی']], ['ei', ['ی']],
+    ['a', ['ا', '']], ['b', ['ب']], ['p', ['پ']], ['t', ['ت', 'ط']], ['s', ['س', 'ص', 'ث']], ['j', ['ج']],
+    ['h', ['ه', 'ح']], ['d', ['د']], ['r', ['ر']], ['z', ['ز', 'ذ', 'ض', 'ظ']], ['f', ['ف']], ['q', ['ق']],
+    ['k', ['ک']], ['c', ['ک']], ['g', ['گ']], ['l', ['ل']], ['m', ['م']], ['n', ['ن']], ['v', ['و']],
+    ['w', ['و']], ['o', ['و', '']], ['u', ['و']], ['i', ['ی']], ['y', ['ی']], ['e', ['', 'ه']], ['x', ['کس']]
+];
+/** Spellings tried per Finglish word before giving up. */
+const MAX_TRANSLITERATIONS = 500;
+
+/** Shortest token (in letters) that is spell-checked, and the document frequency a correction needs. */
+const MIN_TYPO_LENGTH = 4;
+const MIN_CORRECTION_DF = 2;
+
+/**
+ * The form terms have in the server's BM25 index (see server/bm25.js): ی/ک unified, Persian digits
+ * converted, diacritics and ZWNJ removed, lower-case, and plural suffixes stripped from long words.
+ */
+export const toIndexForm = (token: string): string => {
+    const normalized = token
+        .toLowerCase()
+        .replace(/[يى]/g, 'ی')
+        .replace(/ك/g, 'ک')
+        .replace(/[ۀة]/g, 'ه')
+        .replace(/[أإآ]/g, 'ا')
+        .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0))
+        .replace(/[\u064B-\u065F\u0670\u0640]/g, '')
+        .replace(/[\u200C\u200D\u200E\u200F]/g, '');
+    if (!/[\u0600-\u06FF]/.test(normalized) || normalized.length <= 4) return normalized;
+    for (const suffix of ['هایی', 'های', 'ها']) {
+        if (normalized.endsWith(suffix) && normalized.length - suffix.length >= 3) return normalized.slice(0, -suffix.length);
+    }
+    return normalized;
+};
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * abandoned as soon as it must exceed `max`.
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let prevPrev: number[] = [];
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const row = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) value = Math.min(value, prevPrev[j - 2] + 1);
+            row.push(value);
+            rowMin = Math.min(rowMin, value);
+        }
+        if (rowMin > max) return max + 1;
+        prevPrev = prev;
+        prev = row;
+    }
+    return prev[b.length];
+};
+
+/** A token is known when it, or the token minus a short inflection suffix (م، ش، ی، ات ...), is in the corpus. */
+const isKnown = (form: string, vocabulary: Map<string, number>): boolean => {
+    if (vocabulary.has(form)) return true;
+    for (let cut = 1; cut <= 3 && form.length - cut >= 3; cut++) {
+        if (vocabulary.has(form.slice(0, -cut))) return true;
+    }
+    return false;
+};
+
+/** Closest corpus term within the allowed distance; ties go to the more frequent term. */
+const correctTypo = (form: string, vocabulary: Map<string, number>): string | null => {
+    const maxDistance = form.length >= 7 ? 2 : 1;
+    let best: { term: string; distance: number; df: number } | null = null;
+    for (const [term, df] of vocabulary) {
+        if (df < MIN_CORRECTION_DF || !/[\u0600-\u06FF]/.test(term)) continue;
+        const distance = editDistance(form, term, maxDistance);
+        if (distance > maxDistance) continue;
+        if (!best || distance < best.distance || (distance === best.distance && df > best.df)) best = { term, distance, df };
+    }
+    return best?.term ?? null;
+};
+
+/** Persian spellings a Finglish word may stand for (capped at MAX_TRANSLITERATIONS). */
+const transliterations = (word: string): string[] => {
+    let spellings = [''];
+    let i = 0;
+    while (i < word.length && spellings.length > 0) {
+        const [group, letters] = LATIN_LETTERS.find(([g]) => word.startsWith(g, i)) || [word[i], ['']];
+        let options = letters;
+        // A leading vowel is written with alef; a final "e" is usually ه
+        if (i === 0 && /^[aeiou]/.test(group)) options = group === 'aa' ? ['آ'] : group.startsWith('a') ? ['ا', 'آ'] : ['ا'];
+        else if (group === 'e' && i === word.length - 1) options = ['ه', ''];
+        spellings = spellings.flatMap(s => options.map(l => s + l)).slice(0, MAX_TRANSLITERATIONS);
+        i += group.length;
+    }
+    return spellings.filter(Boolean);
+};
+
+/** The most frequent corpus term among the Persian spellings of a Finglish word. */
+const transliterate = (word: string, vocabulary: Map<string, number>): string | null => {
+    let best: string | null = null;
+    let bestDf = 0;
+    for (const spelling of transliterations(word)) {
+        const df = vocabulary.get(toIndexForm(spelling)) || 0;
+        if (df > bestDf) {
+            best = spelling;
+            bestDf = df;
+        }
+    }
+    return best;
+};
+
+/**
+ * Normalizes a search query before retrieval. Latin words become Persian when they are a known
+ * product name, a common Finglish word, or a Finglish spelling of a corpus term; Latin words that
+ * occur in the corpus as they are (English terms, codes) are kept. For a Persian word missing from
+ * the corpus, the nearest corpus term is appended rather than substituted: the word may be spelled
+ * correctly and simply not occur in the documents. Identifiers (anything with digits) are never touched.
+ * @param vocabulary Corpus terms in index form with their document frequency (empty = no spell-checking)
+ */
+export const normalizeQuery = (query: string, vocabulary: Map<string, number>): QueryNormalization => {
+    const corrections: QueryCorrection[] = [];
+    const appended: string[] = [];
+
+    const rewritten = query.split(/(\s+)/).map(part => {
+        const match = part.match(/^([^\p{L}\p{N}]*)([\p{L}\u200C]+)([^\p{L}\p{N}]*)$/u);
+        if (!match) return part;
+        const [, lead, word, trail] = match;
+        const lower = word.toLowerCase();
+        const form = toIndexForm(word);
+        let replacement: string | null = null;
+        let kind: QueryCorrection['kind'] = 'typo';
+
+        if (/^[a-z]+$/.test(lower)) {
+            if (PRODUCT_NAMES[lower]) {
+                replacement = PRODUCT_NAMES[lower];
+                kind = 'product';
+            } else if (lower.length > 1 && !vocabulary.has(lower)) {
+                replacement = FINGLISH_WORDS[lower] || (vocabulary.size > 0 ? transliterate(lower, vocabulary) : null);
+                kind = 'finglish';
+            }
+        } else if (/^[\u0600-\u06FF\u200C]+$/.test(word) && form.length >= MIN_TYPO_LENGTH && vocabulary.size > 0
+            && !/^ن?می/.test(form) && !isKnown(form, vocabulary)) {
+            replacement = correctTypo(form, vocabulary);
+        }
+
+        if (!replacement || toIndexForm(replacement) === form) return part;
+        corrections.push({ from: word, to: replacement, kind });
+        if (kind === 'typo') {
+            appended.push(replacement);
+            return part;
+        }
+        return `${lead}${replacement}${trail}`;
+    }).join('');
+
+    return { normalized: appended.length > 0 ? `${rewritten} ${appended.join(' ')}` : rewritten, corrections };
+};
@@ -1,101 +1,68 @@
 
 import { KnowledgeChunk } from '../types';
-import { cleanAndNormalizeText } from './textProcessor';
+import { getSettings } from './settings';
 
-/**
- * Normalizes text for keyword matching.
- */
-const normalize = (text: string) => {
-    return cleanAndNormalizeText(text).toLowerCase()
-        .replace(/[.,/#!$%^&*;:{}=\-_`~()؟،«»"']/g, " ") // Remove extra punctuation
-        .replace(/\s+/g, ' ')
-        .trim();
-};
-
-/**
- * Calculates a Keyword Match Score (BM25-lite).
- * Boosts score if exact query phrases or bigrams appear in the chunk.
- */
-export const calculateKeywordScore = (query: string, content: string): number => {
-    const normQuery = normalize(query);
-    const normContent = normalize(content);
-    
-    // 1. Exact Phrase Match (Huge Boost)
-    // If the entire query is inside the content (e.g. "Where is X?"), it's very relevant.
-    // We check for reasonable length to avoid matching common short phrases.
-    if (normQuery.length > 10 && normContent.includes(normQuery)) {
-        return 1.0; 
-    }
+/** Longest passage (in characters) sent to the cross-encoder per candidate. */
+const RERANK_MAX_CHARS = 2000;
 
-    const queryTokens = normQuery.split(' ').filter(t => t.length > 2);
-    if (queryTokens.length === 0) return 0;
-
-    let score = 0;
-    
-    // 2. Bigram Matching (Contextual Pair Boosting)
-    // e.g., "خرید اعتباری" is more important than just "خرید" + "اعتباری"
-    let matchedBigrams = 0;
-    const bigramsCount = Math.max(1, queryTokens.length - 1);
-    
-    for (let i = 0; i < queryTokens.length - 1; i++) {
-        const bigram = `${queryTokens[i]} ${queryTokens[i+1]}`;
-        if (normContent.includes(bigram)) {
-            matchedBigrams++;
-            score += 0.3; // Significant boost per bigram
-        }
-    }
-
-    // 3. Token Matching (Frequency)
-    let matchedTokens = 0;
-    queryTokens.forEach(token => {
-        if (normContent.includes(token)) {
-            matchedTokens++;
-            // Boost for term frequency (capped)
-            const count = normContent.split(token).length - 1;
-            score += Math.min(count, 3) * 0.05;
-        }
-    });
-
-    // Normalize base score
-    score += (matchedTokens / queryTokens.length) * 0.4;
-    
-    // Bonus for high coverage
-    if (matchedTokens === queryTokens.length) score += 0.2;
-
-    return Math.min(1.0, score);
-};
+export interface RerankOutcome {
+    chunks: KnowledgeChunk[];
+    applied: boolean;   // false when the reranker was disabled or unreachable
+    model?: string;
+}
 
 /**
- * Reranks chunks using a Hybrid Algorithm:
- * Score = (VectorScore * vectorWeight) + (KeywordScore * (1 - vectorWeight))
- * 
- * This runs purely in the browser, requires NO model downloads.
+ * Reranks candidates with the configured cross-encoder (`rerankerModel`) through the central server.
+ * Each (query, chunk) pair is scored jointly and written to `rerankScore`.
+ * If the reranker is unreachable, the candidates are returned in their original hybrid order.
+ * @param signal Aborts the request when the user stops the answer
  */
-export const rerankChunks = async (query: string, chunks: KnowledgeChunk[], topK = 5, vectorWeight: number = 0.7): Promise<KnowledgeChunk[]> => {
-    if (!chunks || chunks.length === 0) return [];
+export const crossEncoderRerank = async (
+    query: string,
+    chunks: KnowledgeChunk[],
+    topK: number,
+    signal?: AbortSignal
+): Promise<RerankOutcome> => {
+    const settings = getSettings();
+    if (!chunks || chunks.length === 0) return { chunks: [], applied: false };
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 30000);
+    const stop = () => controller.abort();
+    if (signal?.aborted) stop();
+    signal?.addEventListener('abort', stop);
 
-    const keywordWeight = 1.0 - vectorWeight;
+    try {
+        const response = await fetch(`${settings.serverUrl}/rerank`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                query,
+                documents: chunks.map(c => c.content.substring(0, RERANK_MAX_CHARS)),
+                configuration: {
+                    ollamaBaseUrl: settings.ollamaBaseUrl,
+                    rerankerModel: settings.rerankerModel
+                }
+            }),
+            signal: controller.signal
+        });
 
-    const scoredChunks = chunks.map(chunk => {
-        // Use existing vector score (calculated in search.ts) or default to 0
-        const vectorScore = chunk.score || 0;
-        
-        // Calculate fresh keyword score with improved logic
-        const keywordScore = calculateKeywordScore(query, chunk.content);
-        
-        // Hybrid Fusion
-        const finalScore = (vectorScore * vectorWeight) + (keywordScore * keywordWeight);
+        if (!response.ok) throw new Error(`Rerank failed (${response.status})`);
+        const data = await response.json();
+        const scores: number[] = data.scores || [];
+        if (scores.length !== chunks.length) throw new Error("Rerank score count mismatch");
 
-        return {
-            ...chunk,
-            rerankScore: finalScore,
-            // Store debug info
-            debug: { vector: vectorScore, keyword: keywordScore } 
-        };
-    });
+        const reranked = chunks
+            .map((chunk, i) => ({ ...chunk, rerankScore: scores[i] }))
+            .sort((a, b) => (b.rerankScore || 0) - (a.rerankScore || 0))
+            .slice(0, topK);
 
-    // Sort by the new Hybrid Score
-    return scoredChunks
-        .sort((a, b) => (b.rerankScore || 0) - (a.rerankScore || 0))
-        .slice(0, topK);
+        return { chunks: reranked, applied: true, model: data.model || settings.rerankerModel };
+    } catch (e) {
+        console.warn("Cross-encoder rerank unavailable, keeping hybrid order:", e);
+        return { chunks: chunks.slice(0, topK), applied: false };
+    } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', stop);
+    }
 };
@@ -1,8 +1,41 @@
 
 import { getSettings } from './settings';
-import { PERSIAN_SYNONYMS } from './synonymsData';
-import { cleanAndNormalizeText } from './textProcessor'; 
-import { SearchOverrides } from '../types';
+import { loadCorpusVocabulary, loadSynonyms } from './database';
+import { normalizeQuery } from './queryNormalizer';
+import { expandWithSynonyms } from './synonyms';
+import { cleanAndNormalizeText, detectIdentifiers } from './textProcessor'; 
+import { crossEncoderRerank } from './reranker';
+import { mmrSelect } from './mmr';
+import { AppSettings, DocCategory, KnowledgeChunk, Message, MetadataFilter, QueryIdentifiers, QueryResult, SearchOverrides } from '../types';
+
+/** Chunks that end up in the prompt context. */
+const CONTEXT_TOP_K = 15;
+/** Hybrid candidates fetched when reranking or MMR needs a deeper pool than the context itself. */
+const RERANK_CANDIDATES = 40;
+/** Longest history turn (in characters) replayed to the chat model. */
+const HISTORY_TURN_MAX_CHARS = 1500;
+/** Categories whose best score is within this fraction of the top score count as competing answers. */
+const AMBIGUITY_MARGIN = 0.1;
+/** Looser margin used when the question names no system at all. */
+const AMBIGUITY_MARGIN_NO_SYSTEM = 0.25;
+const MAX_CLARIFY_OPTIONS = 4;
+/** Matched child sentences quoted under each passage, and their longest excerpt in characters. */
+const MAX_MATCH_EXCERPTS = 2;
+const MATCH_EXCERPT_CHARS = 160;
+/** Passages an exact identifier match can pin above the search results. */
+const MAX_PINNED = 5;
+
+/** Terms that pin a question to one product/domain; without any of them a split result set is ambiguous. */
+const SYSTEM_HINTS = [
+    'اکسیر', 'exir', 'رکسار', 'recsar', 'بک آفیس', 'back office', 'backoffice', 'مدیریت کارگزاری',
+    'رایان همراه', 'صندوق', 'سبدگردان', 'بورس کالا', 'بورس انرژی'
+];
+
+const QUERY_REWRITE_PROMPT = `You rewrite follow-up questions for a search engine.
+Given the recent conversation and the user's latest message, write ONE standalone Persian search query
+that contains every entity, system name and error code needed to understand the latest message on its own.
+If the latest message is already standalone, return it unchanged.
+Output only the query: no explanation, no quotes, no prefix.`;
 
 const SUPPORT_ADVISOR_PROMPT = `
 شما یک "مشاور فنی ارشد" هستید. وظیفه شما راهنمایی کارشناس پشتیبانی برای حل تیکت مشتری است.
@@ -12,17 +45,240 @@ const SUPPORT_ADVISOR_PROMPT = `
 لحن شما خطاب به "همکار پشتیبان" باشد و پاسخ باید کامل و راهگشا باشد.
 `;
 
-const expandQueryWithSynonyms = (query: string) => {
-    let expanded = query;
-    const lowerQuery = cleanAndNormalizeText(query).toLowerCase();
-    Object.entries(PERSIAN_SYNONYMS).forEach(([official, synonyms]) => {
-        if (synonyms.some(syn => lowerQuery.includes(syn.toLowerCase()))) {
-            if (!lowerQuery.includes(official.toLowerCase())) {
-                expanded += " " + official;
+/** Expands a query with the editable synonym dictionary (the query is kept as-is if it cannot be read). */
+const expandQueryWithSynonyms = async (query: string) => {
+    try {
+        return expandWithSynonyms(query, await loadSynonyms()).expanded;
+    } catch (e) {
+        console.warn("Synonym dictionary unavailable:", e);
+        return query;
+    }
+};
+
+/**
+ * Keeps the user/assistant turns that are worth replaying (drops empty, system and in-flight messages).
+ * The current question is removed if the caller already appended it to the history.
+ */
+const toHistoryTurns = (history: Message[], query: string) => {
+    const turns = history
+        .filter(m => (m.role === 'user' || m.role === 'assistant') && !m.isThinking && m.content?.trim())
+        .map(m => ({ role: m.role, content: m.content.trim().substring(0, HISTORY_TURN_MAX_CHARS) }));
+    const last = turns[turns.length - 1];
+    if (last && last.role === 'user' && last.content === query.trim()) turns.pop();
+    return turns;
+};
+
+/**
+ * Turns a follow-up question into a standalone search query using the recent turns.
+ * Falls back to the original question if there is no prior user turn or the model fails.
+ */
+const rewriteQueryWithHistory = async (
+    query: string,
+    turns: { role: string; content: string }[],
+    settings: AppSettings,
+    signal?: AbortSignal
+): Promise<string> => {
+    if (!turns.some(t => t.role === 'user')) return query;
+
+    const transcript = turns
+        .map(t => `${t.role === 'user' ? 'User' : 'Assistant'}: ${t.content.substring(0, 500)}`)
+        .join('\n');
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 20000);
+    const stop = () => controller.abort();
+    if (signal?.aborted) stop();
+    signal?.addEventListener('abort', stop);
+    try {
+        const response = await fetch(`${settings.serverUrl}/chat`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model: settings.chatModel,
+                messages: [
+                    { role: 'system', content: QUERY_REWRITE_PROMPT },
+                    { role: 'user', content: `Conversation:\n${transcript}\n\nLatest message: ${query}\n\nStandalone query:` }
+                ],
+                temperature: 0,
+                stream: false,
+                configuration: { ollamaBaseUrl: settings.ollamaBaseUrl }
+            }),
+            signal: controller.signal
+        });
+        if (!response.ok) throw new Error(`Rewrite failed (${response.status})`);
+
+        const data = await response.json();
+        const raw: string = data.choices?.[0]?.message?.content ?? data.message?.content ?? '';
+        const rewritten = raw.split('\n').map(l => l.trim()).find(Boolean)?.replace(/^["'«»]+|["'«»]+$/g, '').trim() || '';
+
+        // Guard against the model answering the question instead of rewriting it
+        if (!rewritten || rewritten.length > Math.max(300, query.length * 4)) return query;
+        return rewritten;
+    } catch (e) {
+        console.warn("Query rewrite skipped:", e);
+        return query;
+    } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', stop);
+    }
+};
+
+/**
+ * Decides whether the accepted candidates answer different questions depending on the domain.
+ * Returns the competing categories (best first) or null when one category clearly wins.
+ */
+const detectAmbiguity = (
+    query: string,
+    chunks: KnowledgeChunk[],
+    confidenceOf: (c: KnowledgeChunk) => number
+): DocCategory[] | null => {
+    const bestByCategory = new Map<DocCategory, number>();
+    chunks.forEach(c => {
+        const category = c.metadata?.category;
+        if (!category) return;
+        bestByCategory.set(category, Math.max(bestByCategory.get(category) ?? 0, confidenceOf(c)));
+    });
+    if (bestByCategory.size < 2) return null;
+
+    const ranked = [...bestByCategory.entries()].sort((a, b) => b[1] - a[1]);
+    const topScore = ranked[0][1];
+    const normalizedQuery = cleanAndNormalizeText(query).toLowerCase();
+    const namesSystem = SYSTEM_HINTS.some(h => normalizedQuery.includes(h));
+    const margin = namesSystem ? AMBIGUITY_MARGIN : AMBIGUITY_MARGIN_NO_SYSTEM;
+
+    const competing = ranked.filter(([, score]) => score >= topScore * (1 - margin)).map(([category]) => category);
+    return competing.length >= 2 ? competing.slice(0, MAX_CLARIFY_OPTIONS) : null;
+};
+
+/** Rough token count for Persian/English text (about 3 characters per token). */
+const estimateTokens = (text: string) => Math.ceil(text.length / 3);
+
+/** Child text without the "[بخش: ...]" breadcrumb line added at ingestion. */
+const stripBreadcrumb = (text: string) => text.replace(/^\[بخش:[^\]]*\]\s*/, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Builds the CONTEXT block from ranked passages: every parent once, best first, until the
+ * token budget is spent. The child sentences that matched are quoted under each passage.
+ * A first passage larger than the whole budget is truncated instead of leaving the context empty.
+ */
+const buildContext = (chunks: KnowledgeChunk[], tokenBudget: number) => {
+    const seenParents = new Set<string>();
+    const included: KnowledgeChunk[] = [];
+    const blocks: string[] = [];
+    let tokens = 0;
+    let dropped = 0;
+
+    for (const c of chunks) {
+        // The server already groups by parent; this also covers results from older servers
+        const parentKey = c.parentId || `${c.source.id}\u0000${c.content}`;
+        if (seenParents.has(parentKey)) continue;
+        seenParents.add(parentKey);
+
+        const excerpts = (c.matchedChildren || [])
+            .map(m => stripBreadcrumb(m.text))
+            .filter(text => text && text !== stripBreadcrumb(c.content))
+            .slice(0, MAX_MATCH_EXCERPTS)
+            .map(text => `«${text.substring(0, MATCH_EXCERPT_CHARS)}»`);
+        let block = `[منبع: ${c.source.id} | امتیاز: ${(c.rerankScore ?? c.score)?.toFixed(2)}]\n${c.content}` +
+            (excerpts.length > 0 ? `\n[جملات منطبق: ${excerpts.join(' ')}]` : '');
+        let blockTokens = estimateTokens(block);
+
+        if (tokens + blockTokens > tokenBudget) {
+            if (blocks.length > 0) {
+                dropped++;
+                continue; // A shorter passage further down may still fit
             }
+            block = block.substring(0, tokenBudget * 3);
+            blockTokens = estimateTokens(block);
         }
-    });
-    return expanded;
+        blocks.push(block);
+        included.push(c);
+        tokens += blockTokens;
+    }
+    return { context: blocks.join('\n\n---\n\n'), included, tokens, dropped };
+};
+
+/** What the user should do about a search the server refused with 409, by SchemaError code. */
+const indexConflictMessage = (code?: string): string => {
+    switch (code) {
+        case 'REEMBED_IN_PROGRESS':
+            return "بردارسازی مجدد پایگاه دانش در حال انجام است. تا پایان آن صبر کنید و دوباره بپرسید.";
+        case 'SCHEMA_MIGRATION_REQUIRED':
+            return "ساختار پایگاه دانش قدیمی است. از تنظیمات «ارتقای ساختار» را اجرا کنید.";
+        case 'SCHEMA_TOO_NEW':
+            return "پایگاه دانش با نسخه جدیدتری از سرور ساخته شده است. سرور را به‌روزرسانی کنید.";
+        case 'MIXED_VECTOR_DIMENSIONS':
+        case 'COLUMN_MISMATCH':
+            return "ساختار ایندکس سرور با این نسخه سازگار نیست. از تنظیمات «بردارسازی مجدد» را اجرا کنید.";
+        default:
+            // EMBEDDING_MODEL_MISMATCH, VECTOR_DIMENSION_MISMATCH
+            return "مدل بردارسازی تنظیمات با مدل ایندکس سرور یکسان نیست. مدل را برگردانید یا از تنظیمات «بردارسازی مجدد» را اجرا کنید.";
+    }
+};
+
+/**
+ * Exact lookup of the identifiers in a query (`/api/lookup`): chunks whose metadata or text
+ * contain them verbatim. Returns no chunks when the lookup fails, so the normal search still answers.
+ */
+const lookupIdentifiers = async (
+    identifiers: QueryIdentifiers,
+    filters: MetadataFilter[],
+    serverUrl: string,
+    signal?: AbortSignal
+): Promise<KnowledgeChunk[]> => {
+    try {
+        const response = await fetch(`${serverUrl}/lookup`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...identifiers, filters, limit: MAX_PINNED }),
+            signal
+        });
+        if (!response.ok) throw new Error(`Lookup failed: ${response.status}`);
+        return await response.json();
+    } catch (e) {
+        console.warn("Identifier lookup failed, using search only:", e);
+        return [];
+    }
+};
+
+/**
+ * Reads the server's NDJSON chat stream and reports the accumulated answer after every chunk.
+ * Returns the full text once the stream ends (or whatever arrived before an abort).
+ */
+const readChatStream = async (
+    response: Response,
+    onToken?: (partialText: string) => void,
+    onActivity?: () => void
+): Promise<string> => {
+    if (!response.body) throw new Error("Streaming is not supported by this browser.");
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let fullText = '';
+
+    const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        const event = JSON.parse(line);
+        if (event.error) throw new Error(event.error);
+        if (event.content) {
+            fullText += event.content;
+            onToken?.(fullText);
+        }
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        onActivity?.();
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+
+    return fullText;
 };
 
 export const processQuery = async (
@@ -32,10 +288,13 @@ export const processQuery = async (
     categoryFilter?: string,
     temperatureOverride?: number, 
     useWebSearch = false,
-    history: any[] = [],
+    history: Message[] = [],
     searchOverrides: SearchOverrides = {},
-    isAdvisorMode = false 
-) => {
+    isAdvisorMode = false,
+    onToken?: (partialText: string) => void,
+    signal?: AbortSignal,
+    filters: MetadataFilter[] = []
+): Promise<QueryResult> => {
     const globalSettings = getSettings();
     
     const settings = { 
@@ -44,10 +303,16 @@ export const processQuery = async (
         temperature: searchOverrides.temperature ?? temperatureOverride ?? globalSettings.temperature,
         minConfidence: searchOverrides.minConfidence ?? globalSettings.minConfidence,
         vectorWeight: searchOverrides.vectorWeight ?? globalSettings.vectorWeight,
+        fusionMode: searchOverrides.fusionMode ?? globalSettings.fusionMode,
+        rrfK: searchOverrides.rrfK ?? globalSettings.rrfK,
+        mmrLambda: searchOverrides.mmrLambda ?? globalSettings.mmrLambda,
         enableReranker: searchOverrides.enableReranker ?? globalSettings.enableReranker
     };
 
     const startTime = Date.now();
+    const useMmr = settings.mmrLambda < 1;
+    // Stop pressed before generation started: there is no partial answer to keep
+    const stoppedResult = (): QueryResult => ({ text: '', sources: [], isAmbiguous: false, options: [], isPartial: true });
 
     // Config object to pass to server
     const serverConfig = {
@@ -56,43 +321,206 @@ export const processQuery = async (
     };
 
     try {
-        const expandedQuery = expandQueryWithSynonyms(query);
-        onProgress?.({ step: 'searching', expandedQuery });
+        // --- CONVERSATION-AWARE REWRITE ---
+        const historyTurns = toHistoryTurns(history, query);
+        let searchQuery = query;
+        if (historyTurns.length > 0) {
+            onProgress?.({ step: 'analyzing' });
+            searchQuery = await rewriteQueryWithHistory(query, historyTurns, settings, signal);
+        }
+
+        // --- EXACT IDENTIFIER FAST PATH ---
+        // Ticket numbers, customer IDs and error codes mean little to embeddings: chunks that
+        // contain them verbatim are looked up directly and pinned above the search results
+        const identifiers = detectIdentifiers(query);
+        const identifierList = [...identifiers.ticketIds, ...identifiers.customerIds, ...identifiers.errorCodes];
+        const pinned = identifierList.length > 0 ? await lookupIdentifiers(identifiers, filters, settings.serverUrl, signal) : [];
+
+        // --- QUERY NORMALIZATION ---
+        // Finglish ("exir login nemishe"), English product names and typos are mapped to the corpus' own words
+        const { normalized, corrections } = normalizeQuery(searchQuery, await loadCorpusVocabulary());
+        if (corrections.length > 0) {
+            searchQuery = normalized;
+            onProgress?.({ step: 'analyzing', correctedQuery: normalized, queryCorrections: corrections });
+        }
+
+        const expandedQuery = await expandQueryWithSynonyms(searchQuery);
+        onProgress?.({ step: 'vectorizing', expandedQuery });
         
         // --- CENTRALIZED SEARCH ---
-        let topChunks = [];
+        let candidates: KnowledgeChunk[] = [];
+        let indexConflict: { code?: string; error?: string } | null = null;
+        let invalidFilter: string | null = null;
         try {
-            // INCREASED TOP_K to 15 for comprehensive context
             const searchResponse = await fetch(`${settings.serverUrl}/search`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     query: expandedQuery,
                     categoryFilter,
+                    filters,
                     vectorWeight: settings.vectorWeight,
-                    topK: 15, // Increased from 8 to 15 to allow comprehensive answers
+                    fusionMode: settings.fusionMode,
+                    rrfK: settings.rrfK,
+                    // Over-fetch when reranking or diversifying so deeper hits can be promoted
+                    topK: settings.enableReranker || useMmr ? RERANK_CANDIDATES : CONTEXT_TOP_K,
                     configuration: serverConfig
-                })
+                }),
+                signal
             });
 
+            if (searchResponse.status === 400) {
+                // A filter the server could not compile (unknown field, unparseable date or version)
+                const err = await searchResponse.json().catch(() => null);
+                invalidFilter = err?.error || 'Invalid filter';
+            }
+            if (searchResponse.status === 409) {
+                // The index cannot serve this search (model/dimension mismatch, re-embed running, migration needed)
+                indexConflict = await searchResponse.json().catch(() => null) || {};
+            }
             if (!searchResponse.ok) throw new Error("Server Search Failed");
-            topChunks = await searchResponse.json();
+            candidates = await searchResponse.json();
         } catch (serverErr) {
             console.error("Central Search Failed:", serverErr);
+            if (invalidFilter) throw new Error(`فیلتر جستجو نامعتبر است: ${invalidFilter}`);
+            if (indexConflict) throw new Error(`${indexConflictMessage(indexConflict.code)}\n${indexConflict.error || ''}`.trim());
             throw new Error("خطا در ارتباط با سرور دانش مرکزی. لطفاً اتصال سرور را بررسی کنید.");
         }
 
+        // --- CROSS-ENCODER RERANK ---
+        // MMR needs the whole pool to choose from; otherwise only the context size is kept
+        const poolSize = useMmr ? candidates.length : CONTEXT_TOP_K;
+        let topChunks = candidates.slice(0, poolSize);
+        let rerankApplied = false;
+        if (settings.enableReranker && candidates.length > 0) {
+            onProgress?.({ step: 'reranking', rerankModel: settings.rerankerModel });
+            const outcome = await crossEncoderRerank(searchQuery, candidates, poolSize, signal);
+            topChunks = outcome.chunks;
+            rerankApplied = outcome.applied;
+        }
+        if (signal?.aborted) return stoppedResult();
+
+        // --- CONFIDENCE GATE ---
+        // Cross-encoder scores replace the hybrid score once reranking has been applied
+        const confidenceOf = (c: KnowledgeChunk) => (rerankApplied ? c.rerankScore : c.score) ?? 0;
+        const retrieved = topChunks;
+        const confident = retrieved.filter(c => confidenceOf(c) >= settings.minConfidence);
+        const rejectedCount = retrieved.length - confident.length;
+
+        // --- MMR DIVERSIFICATION ---
+        // Near-identical passages (e.g. one instruction repeated across versions) would crowd out other sources
+        const { selected, redundant } = mmrSelect(confident, CONTEXT_TOP_K, settings.mmrLambda, confidenceOf);
+        const pinnedParents = new Set(pinned.map(c => c.parentId));
+        topChunks = [...pinned, ...selected.filter(c => !pinnedParents.has(c.parentId))];
+        const selectedSet = new Set(selected);
+        const redundantSet = new Set(redundant);
+
+        onProgress?.({
+            step: 'searching',
+            rerankApplied,
+            minConfidence: settings.minConfidence,
+            retrievedCandidates: [
+                ...pinned.map(c => ({ title: c.source.title || c.source.id, score: c.score || 0, accepted: true })),
+                ...retrieved
+                    // Confident candidates beyond the context size were never in contention
+                    .filter(c => selectedSet.has(c) || redundantSet.has(c) || confidenceOf(c) < settings.minConfidence)
+                    .map(c => ({
+                        title: c.source.title || c.source.id,
+                        score: c.score || 0,
+                        rerankScore: c.rerankScore,
+                        accepted: selectedSet.has(c),
+                        redundant: redundantSet.has(c)
+                    }))
+            ]
+        });
+
         if (topChunks.length === 0) {
-            return { text: "اطلاعاتی با اطمینان کافی در سرور یافت نشد.", sources: [], isAmbiguous: false, options: [] };
+            const bestScore = retrieved.length > 0 ? Math.max(...retrieved.map(confidenceOf)) : 0;
+            return {
+                text: filters.length > 0
+                    ? "با فیلترهای انتخاب‌شده اطلاعاتی با اطمینان کافی یافت نشد. فیلترها را کمتر کنید."
+                    : "اطلاعاتی با اطمینان کافی در سرور یافت نشد.",
+                sources: [],
+                isAmbiguous: false,
+                options: [],
+                noAnswer: true,
+                debugInfo: {
+                    strategy: 'Centralized-LanceDB',
+                    processingTimeMs: Date.now() - startTime,
+                    candidateCount: 0,
+                    logicStep: retrieved.length > 0
+                        ? `Below minConfidence (best ${bestScore.toFixed(2)} < ${settings.minConfidence})`
+                        : 'No candidates',
+                    extractedKeywords: [],
+                    rejectedCount
+                }
+            };
+        }
+
+        // --- CLARIFICATION ---
+        // Skipped once the user has picked a category (the re-run arrives with categoryFilter set)
+        // and when an identifier already pinned the exact passages
+        const clarifyOptions = categoryFilter || pinned.length > 0 ? null : detectAmbiguity(searchQuery, topChunks, confidenceOf);
+        if (clarifyOptions) {
+            return {
+                text: "سوال شما به چند بخش مختلف مرتبط است. لطفاً بخش مورد نظر را انتخاب کنید:",
+                sources: [],
+                isAmbiguous: true,
+                options: clarifyOptions,
+                debugInfo: {
+                    strategy: 'Centralized-LanceDB',
+                    processingTimeMs: Date.now() - startTime,
+                    candidateCount: topChunks.length,
+                    logicStep: `Ambiguous → Clarify (${clarifyOptions.join(', ')})`,
+                    extractedKeywords: [],
+                    rejectedCount
+                }
+            };
         }
 
         onProgress?.({ step: 'generating' });
         
-        const context = topChunks.map(c => `[منبع: ${c.source.id} | امتیاز: ${c.score?.toFixed(2)}]\n${c.content}`).join('\n\n---\n\n');
+        const { context, included, tokens: contextTokens, dropped: droppedForBudget } = buildContext(topChunks, settings.contextTokenBudget);
         const systemInstruction = isAdvisorMode ? SUPPORT_ADVISOR_PROMPT : settings.systemPrompt;
 
+        // Inactivity timeout: reset on every streamed chunk so long answers are not cut off
         const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 120000); // Increased timeout for longer generation
+        let timeoutId = setTimeout(() => controller.abort(), 120000);
+        const resetTimeout = () => {
+            clearTimeout(timeoutId);
+            timeoutId = setTimeout(() => controller.abort(), 120000);
+        };
+        const stopGeneration = () => controller.abort();
+        signal?.addEventListener('abort', stopGeneration);
+
+        let partialText = '';
+        // Metadata rides along so the UI can show the section path of each source,
+        // and the snippet is the child that matched best
+        const sources = included.map(c => ({
+            ...c.source,
+            metadata: c.metadata,
+            snippet: c.matchedChildren?.[0] ? stripBreadcrumb(c.matchedChildren[0].text).substring(0, 300) : c.source.snippet
+        }));
+        const fusionLabel = settings.fusionMode === 'rrf'
+            ? `Server-RRF(k:${settings.rrfK})`
+            : `Server-Hybrid(V:${settings.vectorWeight})`;
+        const mmrLabel = useMmr ? ` → MMR(λ:${settings.mmrLambda})` : '';
+        const identifierLabel = pinned.length > 0 ? `ID-Lookup(${identifierList.join(', ')}) + ` : '';
+        const buildDebugInfo = () => ({ 
+            strategy: 'Centralized-LanceDB', 
+            processingTimeMs: Date.now() - startTime, 
+            candidateCount: included.length, 
+            logicStep: identifierLabel + (rerankApplied ? `${fusionLabel} → Rerank` : fusionLabel) + mmrLabel, 
+            extractedKeywords: [],
+            rerankModel: rerankApplied ? settings.rerankerModel : undefined,
+            rerankScores: rerankApplied ? included.map(c => c.rerankScore || 0) : undefined,
+            rejectedCount,
+            redundantCount: redundant.length,
+            identifiers: identifierList.length > 0 ? identifierList : undefined,
+            pinnedCount: pinned.length,
+            contextTokens,
+            droppedForBudget
+        });
 
         try {
             const response = await fetch(`${settings.serverUrl}/chat`, {
@@ -104,52 +532,57 @@ export const processQuery = async (
                     model: settings.chatModel,
                     messages: [
                         { role: 'system', content: systemInstruction },
+                        ...historyTurns,
                         // Simplified user prompt to prevent repetition loops
                         { role: 'user', content: `مستندات (CONTEXT):\n${context}\n\nسوال کاربر (QUESTION):\n${query}\n\nپاسخ نهایی (فارسی، خلاصه و بدون تکرار):` }
                     ],
                     temperature: settings.temperature,
-                    stream: false,
+                    stream: true,
                     configuration: serverConfig
                 }),
                 signal: controller.signal
             });
-            
-            clearTimeout(timeoutId);
 
             if (!response.ok) {
                 const errText = await response.text();
                 throw new Error(`API Error ${response.status}: ${errText}`);
             }
 
-            const data = await response.json();
-            const replyText = data.choices?.[0]?.message?.content || "پاسخی از مدل دریافت نشد.";
+            const replyText = await readChatStream(response, (text) => {
+                partialText = text;
+                onToken?.(text);
+            }, resetTimeout);
 
             return {
-                text: replyText,
-                sources: topChunks.map(c => c.source),
+                text: replyText || "پاسخی از مدل دریافت نشد.",
+                sources,
                 isAmbiguous: false,
                 options: [],
-                debugInfo: { 
-                    strategy: 'Centralized-LanceDB', 
-                    processingTimeMs: Date.now() - startTime, 
-                    candidateCount: topChunks.length, 
-                    logicStep: `Server-Hybrid(V:${settings.vectorWeight})`, 
-                    extractedKeywords: [] 
-                }
+                context,
+                model: settings.chatModel,
+                debugInfo: buildDebugInfo()
             };
         } catch (err) {
             const fetchError = err as any; 
-            clearTimeout(timeoutId);
             if (fetchError.name === 'AbortError') {
+                // Stopped by the user: keep whatever was generated so far
+                if (signal?.aborted) {
+                    return { text: partialText, sources, isAmbiguous: false, options: [], isPartial: true, context, model: settings.chatModel, debugInfo: buildDebugInfo() };
+                }
                 throw new Error("تایم‌اوت ارتباط با مدل. تولید پاسخ جامع بیش از حد طول کشید.");
             }
             if (fetchError.message?.includes('Failed to fetch')) {
                 throw new Error("OLLAMA_CONNECTION_REFUSED");
             }
             throw fetchError;
+        } finally {
+            clearTimeout(timeoutId);
+            signal?.removeEventListener('abort', stopGeneration);
         }
 
     } catch (error: any) {
+        // Aborted retrieval requests surface as errors; a stop is not a failure
+        if (signal?.aborted) return stoppedResult();
         console.error("Pipeline Failure:", error);
         
         if (error.message === "OLLAMA_CONNECTION_REFUSED") {
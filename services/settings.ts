@@ -22,6 +22,12 @@ const DEFAULT_SETTINGS: AppSettings = {
 ۴. **فرمت:** از تگ‌های اضافی مثل <|channel|> یا توضیحات انگلیسی استفاده نکنید.`,
   minConfidence: 0.25, 
   vectorWeight: 0.30, 
+  fusionMode: 'linear',
+  rrfK: 60,
+  embeddingBatchSize: 16,
+  embeddingConcurrency: 2,
+  contextTokenBudget: 3000,
+  mmrLambda: 0.7,
   theme: 'dark'
 };
 
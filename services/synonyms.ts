@@ -0,0 +1,109 @@
+import { SynonymEntry, SynonymExpansion } from '../types';
+import { PERSIAN_SYNONYMS } from './synonymsData';
+import { cleanAndNormalizeText, hashText } from './textProcessor';
+
+/** Separator between synonyms inside one CSV cell. */
+const CSV_SYNONYM_SEPARATOR = '|';
+
+const normalizePhrase = (text: string) => cleanAndNormalizeText(text).toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Builds a dictionary entry. The ID is derived from the normalized term, so importing
+ * an entry for a term that already exists replaces it instead of adding a duplicate.
+ */
+export const createSynonymEntry = (term: string, synonyms: string[], bidirectional = false): SynonymEntry => {
+    const cleanTerm = term.trim();
+    const termKey = normalizePhrase(cleanTerm);
+    const seen = new Set<string>([termKey]);
+    const cleanSynonyms = synonyms.map(s => s.trim()).filter(s => {
+        const key = normalizePhrase(s);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+    return { id: `syn-${hashText(termKey)}`, term: cleanTerm, synonyms: cleanSynonyms, bidirectional };
+};
+
+/** The built-in dictionary (synonymsData.ts) as one-way entries: colloquial phrase -> official term. */
+export const defaultSynonymEntries = (): SynonymEntry[] =>
+    Object.entries(PERSIAN_SYNONYMS).map(([term, synonyms]) => createSynonymEntry(term, synonyms));
+
+/**
+ * Appends dictionary terms to a query. A synonym in the query adds its official term;
+ * for bidirectional entries the official term in the query also adds all of its synonyms.
+ * Phrases already in the query are never added again.
+ */
+export const expandWithSynonyms = (query: string, entries: SynonymEntry[]): SynonymExpansion => {
+    const normalizedQuery = normalizePhrase(query);
+    const present = (phrase: string) => normalizedQuery.includes(normalizePhrase(phrase));
+    const added: SynonymExpansion['added'] = [];
+    const addedKeys = new Set<string>();
+    const add = (phrase: string, trigger: string) => {
+        const key = normalizePhrase(phrase);
+        if (!key || addedKeys.has(key) || present(phrase)) return;
+        addedKeys.add(key);
+        added.push({ phrase, trigger });
+    };
+
+    entries.forEach(entry => {
+        const trigger = entry.synonyms.find(present);
+        if (trigger) add(entry.term, trigger);
+        if (entry.bidirectional && present(entry.term)) entry.synonyms.forEach(s => add(s, entry.term));
+    });
+
+    return {
+        expanded: added.length > 0 ? `${query} ${added.map(a => a.phrase).join(' ')}` : query,
+        added
+    };
+};
+
+const csvCell = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** CSV with one entry per row: term, synonyms (joined by "|"), bidirectional (true/false). */
+export const synonymsToCsv = (entries: SynonymEntry[]): string =>
+    [
+        'term,synonyms,bidirectional',
+        ...entries.map(e => [e.term, e.synonyms.join(` ${CSV_SYNONYM_SEPARATOR} `), String(e.bidirectional)].map(csvCell).join(','))
+    ].join('\n');
+
+export const synonymsToJson = (entries: SynonymEntry[]): string =>
+    JSON.stringify(entries.map(({ term, synonyms, bidirectional }) => ({ term, synonyms, bidirectional })), null, 2);
+
+const parseFlag = (value: unknown) => value === true || /^(true|1|yes|بله|دوطرفه)$/i.test(String(value ?? '').trim());
+
+/**
+ * Entries from parsed CSV rows. A header row naming term/synonyms/bidirectional (or عبارت/مترادف/دوطرفه)
+ * sets the column order; otherwise the columns are read in that order.
+ */
+export const synonymsFromCsvRows = (rows: string[][]): SynonymEntry[] => {
+    if (rows.length === 0) return [];
+    const header = rows[0].map(h => h.trim().toLowerCase());
+    const find = (...names: string[]) => header.findIndex(h => names.some(n => h.includes(n)));
+    const termIdx = find('term', 'عبارت');
+    const synonymsIdx = find('synonym', 'مترادف');
+    const hasHeader = termIdx !== -1 && synonymsIdx !== -1;
+    const columns = hasHeader
+        ? { term: termIdx, synonyms: synonymsIdx, bidirectional: find('bidirectional', 'دوطرفه') }
+        : { term: 0, synonyms: 1, bidirectional: 2 };
+
+    return rows.slice(hasHeader ? 1 : 0)
+        .filter(row => row[columns.term]?.trim())
+        .map(row => createSynonymEntry(
+            row[columns.term],
+            (row[columns.synonyms] || '').split(CSV_SYNONYM_SEPARATOR),
+            columns.bidirectional !== -1 && parseFlag(row[columns.bidirectional])
+        ))
+        .filter(entry => entry.synonyms.length > 0);
+};
+
+/** Entries from JSON: an array of {term, synonyms, bidirectional}, or a {term: synonyms[]} map like synonymsData.ts. */
+export const synonymsFromJson = (text: string): SynonymEntry[] => {
+    const data = JSON.parse(text);
+    const items = Array.isArray(data)
+        ? data
+        : Object.entries(data || {}).map(([term, synonyms]) => ({ term, synonyms, bidirectional: false }));
+    return items
+        .filter((item: any) => typeof item?.term === 'string' && Array.isArray(item.synonyms))
+        .map((item: any) => createSynonymEntry(item.term, item.synonyms.map(String), parseFlag(item.bidirectional)))
+        .filter(entry => entry.term && entry.synonyms.length > 0);
+};
@@ -1,5 +1,5 @@
 
-import { DocCategory, ChunkMetadata } from '../types';
+import { DocCategory, ChunkMetadata, ChunkingStrategy, SectionChunk, QueryIdentifiers } from '../types';
 import { getSettings } from './settings';
 
 // ==========================================
@@ -12,6 +12,25 @@ export const toPersianDigits = (n: number | string | undefined | null): string =
     return n.toString().replace(/\d/g, x => farsiDigits[parseInt(x)]);
 };
 
+/**
+ * Deterministic content hash used for chunk and document IDs (two seeded 53-bit cyrb53 passes, hex).
+ * Synchronous and independent of `crypto.subtle`, which is unavailable outside secure contexts.
+ */
+export const hashText = (text: string): string => {
+    const cyrb53 = (seed: number) => {
+        let h1 = 0xdeadbeef ^ seed, h2 = 0x41c6ce57 ^ seed;
+        for (let i = 0; i < text.length; i++) {
+            const ch = text.charCodeAt(i);
+            h1 = Math.imul(h1 ^ ch, 2654435761);
+            h2 = Math.imul(h2 ^ ch, 1597334677);
+        }
+        h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+        h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+        return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+    };
+    return cyrb53(0) + cyrb53(0x9e3779b9);
+};
+
 export const stripHtml = (html: string): string => {
    if (!html) return '';
    return html
@@ -61,7 +80,8 @@ export const htmlToMarkdown = (html: string): string => {
     });
 
     // 2. Structural Conversion
-    text = text.replace(/<h[1-6][^>]*>(.*?)<\/h[1-6]>/gi, '\n\n# $1\n\n'); // Headers
+    // Headers keep their level, so chunkMarkdown can rebuild the section hierarchy
+    text = text.replace(/<h([1-6])[^>]*>(.*?)<\/h\1>/gis, (_, level, title) => `\n\n${'#'.repeat(Number(level))} ${title.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()}\n\n`);
     text = text.replace(/<li[^>]*>(.*?)<\/li>/gi, '\n- $1'); // List items
     text = text.replace(/<br\s*\/?>/gi, '\n'); // Line breaks
     text = text.replace(/<p[^>]*>/gi, '\n\n'); // Start of paragraph
@@ -279,6 +299,27 @@ export const extractMetadata = (text: string, filename: string, category: DocCat
   return metadata;
 };
 
+/**
+ * Finds identifiers in a query: ticket numbers ("تیکت 1402345", or any bare number of 5+ digits,
+ * as in extractMetadata), customer IDs ("PRX12345") and error codes ("خطای 10061", "ORA-01017").
+ * Persian digits are converted first, so "تیکت ۱۴۰۲۳۴۵" is found too.
+ */
+export const detectIdentifiers = (query: string): QueryIdentifiers => {
+  const text = query.replace(/[۰-۹]/g, d => String.fromCharCode(d.charCodeAt(0) - 1728));
+  const unique = (values: string[]) => [...new Set(values)];
+
+  const customerIds = unique((text.match(/PRX\d+/gi) || []).map(id => id.toUpperCase()));
+  const errorCodes = unique([
+      ...[...text.matchAll(/(?:کد\s*)?(?:خطای|خطا|error|err)\s*(?:کد|شماره)?\s*[:#]?\s*([A-Za-z]*-?\d{3,})/gi)].map(m => m[1]),
+      ...(text.match(/\b[A-Z]{2,5}-\d{3,}\b/g) || [])
+  ]);
+  // Customer IDs and error codes also contain digit runs; those are not ticket numbers
+  const rest = text.replace(/PRX\d+/gi, ' ').replace(/[A-Za-z]+-?\d+/g, ' ');
+  const ticketIds = unique((rest.match(/(?<!\d)\d{5,}(?!\d)/g) || []).filter(n => !errorCodes.includes(n)));
+
+  return { ticketIds, customerIds, errorCodes };
+};
+
 export const splitIntoSentences = (text: string): string[] => {
     return text.match(/[^.?!؟\n]+[.?!؟\n]+(\s+|$)|[^.?!؟\n]+$/g) || [text];
 };
@@ -404,17 +445,27 @@ export const intelligentChunking = (text: string, targetSize?: number, overlapSi
 // Renamed for backward compatibility if needed, but we replace the logic
 export const smartChunking = intelligentChunking;
 
+/** Context line prepended to a structured chunk, e.g. "[بخش: راهبری > تنظیمات]". */
+export const formatSectionBreadcrumb = (sectionPath: string[]): string =>
+    sectionPath.length > 0 ? `[بخش: ${sectionPath.join(" > ")}]\n` : "";
+
 /**
  * IMPROVED: Header-Aware Markdown Chunking (Section Accumulation).
  * Instead of streaming lines, it accumulates content per section (Header)
  * and then intelligently splits that section if it's too large using smartChunking.
  */
-export const chunkMarkdown = (text: string, targetSize?: number, overlap?: number): string[] => {
+export const chunkMarkdown = (text: string, targetSize?: number, overlap?: number): string[] =>
+    chunkMarkdownSections(text, targetSize, overlap).map(c => (formatSectionBreadcrumb(c.sectionPath) + c.text).trim());
+
+/**
+ * Same as chunkMarkdown, but returns each chunk's heading trail separately instead of as a breadcrumb.
+ */
+export const chunkMarkdownSections = (text: string, targetSize?: number, overlap?: number): SectionChunk[] => {
     const settings = getSettings();
     const effectiveTarget = targetSize || settings.chunkSize;
     const effectiveOverlap = overlap || settings.chunkOverlap;
 
-    const chunks: string[] = [];
+    const chunks: SectionChunk[] = [];
     const lines = text.split('\n');
     
     let currentHeaderStack: string[] = []; 
@@ -422,20 +473,17 @@ export const chunkMarkdown = (text: string, targetSize?: number, overlap?: numbe
 
     const flushSection = () => {
         if (!currentSectionContent.trim()) return;
-
-        // Context String: e.g., "[بخش: راهبری > تنظیمات]"
-        const contextHeader = currentHeaderStack.length > 0 
-            ? `[بخش: ${currentHeaderStack.join(" > ")}]\n` 
-            : "";
+        const sectionPath = [...currentHeaderStack];
+        const contextHeader = formatSectionBreadcrumb(sectionPath);
 
         // If section is small enough, keep it as one chunk (plus header)
         if (currentSectionContent.length + contextHeader.length <= effectiveTarget * 1.5) { // Allow slight overflow for cohesion
-             chunks.push((contextHeader + currentSectionContent).trim());
+             chunks.push({ text: currentSectionContent.trim(), sectionPath });
         } else {
              // If section is HUGE, use intelligentChunking on it
              const subChunks = intelligentChunking(currentSectionContent, effectiveTarget, effectiveOverlap);
              subChunks.forEach(sc => {
-                 chunks.push((contextHeader + sc).trim());
+                 chunks.push({ text: sc.trim(), sectionPath });
              });
         }
         currentSectionContent = "";
@@ -449,7 +497,7 @@ export const chunkMarkdown = (text: string, targetSize?: number, overlap?: numbe
             flushSection();
 
             const level = headerMatch[1].length;
-            const title = headerMatch[2];
+            const title = headerMatch[2].trim();
             
             // Update stack
             if (currentHeaderStack.length >= level) {
@@ -469,7 +517,7 @@ export const chunkMarkdown = (text: string, targetSize?: number, overlap?: numbe
 
     // Fallback if regex failed completely (no headers found)
     if (chunks.length === 0 && text.trim().length > 0) {
-        return intelligentChunking(text, effectiveTarget, effectiveOverlap);
+        return intelligentChunking(text, effectiveTarget, effectiveOverlap).map(c => ({ text: c, sectionPath: [] }));
     }
 
     return chunks;
@@ -481,23 +529,61 @@ export const chunkWhole = (text: string): string[] => {
     return intelligentChunking(text, settings.chunkSize, settings.chunkOverlap);
 };
 
-export const chunkQA = (text: string): string[] => {
-    const chunks: string[] = [];
-    const qaRegex = /(سوال\s*[:\d-].*?)(?=سوال\s*[:\d-]|$)/gs;
-    
-    let match;
-    let found = false;
-    while ((match = qaRegex.exec(text)) !== null) {
-        let block = match[1].trim();
-        if (block.length > 30) {
-            chunks.push(block);
-            found = true;
-        }
-    }
-    
-    if (!found) {
-        return intelligentChunking(text);
-    }
+const HEADING_LINE = /^#{1,6}\s+\S/gm;
+const QA_MARKER = /(^|\n)\s*سوال\s*[:\d-]/g;
 
-    return chunks;
+/**
+ * Picks the chunking strategy for a document: 'structure' when it has headings (markdown,
+ * or docx headings via htmlToMarkdown), 'qa' for FAQ-style "سوال:" blocks, otherwise 'plain'.
+ */
+export const detectChunkingStrategy = (text: string, filename: string): Exclude<ChunkingStrategy, 'auto'> => {
+    const headings = (text.match(HEADING_LINE) || []).length;
+    const qaBlocks = (text.match(QA_MARKER) || []).length;
+    if (qaBlocks >= 3 && qaBlocks > headings) return 'qa';
+    // A single heading in a markdown file still marks a section; elsewhere it may be a stray "#"
+    if (headings >= 2 || (headings === 1 && /\.md$/i.test(filename))) return 'structure';
+    return 'plain';
+};
+
+/** Blocks this short (e.g. a bare "سوال ۳:") are merged into the next block rather than stored alone. */
+const MIN_QA_BLOCK_CHARS = 30;
+/** Longest question line repeated at the top of each part of a split Q&A block. */
+const MAX_QA_QUESTION_CHARS = 200;
+
+/**
+ * Splits FAQ-style text into one chunk per "سوال" block. Text before the first question is kept
+ * as its own chunk, short fragments are merged into the following block, and blocks longer than
+ * `targetSize` are split with smartChunking, repeating the question on every part. No text is dropped.
+ */
+export const chunkQA = (text: string, targetSize?: number, overlap?: number): string[] => {
+    const chunkSize = targetSize || getSettings().chunkSize;
+    const starts = [...text.matchAll(/سوال\s*[:\d-]/g)].map(m => m.index as number);
+    if (starts.length === 0) return intelligentChunking(text, targetSize, overlap);
+
+    const pieces = [text.slice(0, starts[0]), ...starts.map((start, i) => text.slice(start, starts[i + 1] ?? text.length))]
+        .map(p => p.trim())
+        .filter(Boolean);
+
+    // Short fragments join the next block; a short final block is kept on its own
+    const blocks: string[] = [];
+    let carry = '';
+    pieces.forEach(piece => {
+        const block = carry ? `${carry}\n${piece}` : piece;
+        if (block.length <= MIN_QA_BLOCK_CHARS) carry = block;
+        else {
+            blocks.push(block);
+            carry = '';
+        }
+    });
+    if (carry) blocks.push(carry);
+
+    return blocks.flatMap(block => {
+        if (block.length <= chunkSize) return [block];
+        const firstLine = block.split('\n')[0];
+        const question = firstLine.slice(0, firstLine.indexOf('؟') + 1 || firstLine.length).trim();
+        const repeat = /^سوال/.test(question) && question.length <= MAX_QA_QUESTION_CHARS;
+        return smartChunking(block, chunkSize, overlap).map((part, i) =>
+            i > 0 && repeat && !part.startsWith(question) ? `${question}\n${part}` : part
+        );
+    });
 };
@@ -13,9 +13,22 @@ export interface AppSettings {
   systemPrompt: string;
   minConfidence: number;
   vectorWeight: number; 
+  fusionMode: FusionMode;
+  rrfK: number;
+  embeddingBatchSize: number; // Inputs per /v1/embeddings request (Ollama's /api/embeddings takes one)
+  embeddingConcurrency: number; // Embedding requests in flight on the server
+  contextTokenBudget: number; // Approximate token cap of the CONTEXT block sent to the chat model
+  mmrLambda: number; // MMR relevance/diversity trade-off for the context (1 = relevance only)
   theme: 'light' | 'dark'; 
 }
 
+/**
+ * How the vector and BM25 result lists are combined on the server.
+ * - linear: vectorScore * vectorWeight + keywordScore * (1 - vectorWeight)
+ * - rrf: Reciprocal Rank Fusion, sum of 1 / (rrfK + rank) over both lists (scale-free)
+ */
+export type FusionMode = 'linear' | 'rrf';
+
 export interface BaseDocument {
     id: string;
     createdAt?: number;
@@ -34,6 +47,29 @@ export interface ChunkMetadata {
     version?: string;
     documentDate?: string;
     symbols?: string[];
+    sectionPath?: string[]; // Heading trail of the chunk (e.g. ["راهبری", "تنظیمات"]) for structured documents
+}
+
+/** How parseFiles splits a document. 'auto' picks one per file from its detected structure. */
+export type ChunkingStrategy = 'auto' | 'structure' | 'qa' | 'plain';
+
+/** A chunk of text together with the headings it sits under. */
+export interface SectionChunk {
+    text: string;
+    sectionPath: string[];
+}
+
+/** Metadata fields a search can be restricted to (pre-filtered in LanceDB). */
+export type MetadataFilterField = 'category' | 'ticketId' | 'customerId' | 'software' | 'version' | 'documentDate' | 'tags' | 'symbols';
+
+/** eq/in: exact match, gte/lte: range (version, documentDate), contains: one value of a list field (tags, symbols). */
+export type MetadataFilterOp = 'eq' | 'in' | 'gte' | 'lte' | 'contains';
+
+/** One clause of a search filter; every clause of a search must match. Dates are "YYYY-MM-DD" or Jalali "YYYY/MM/DD". */
+export interface MetadataFilter {
+    field: MetadataFilterField;
+    op: MetadataFilterOp;
+    value: string | string[]; // A list only for 'in'
 }
 
 export interface Source {
@@ -43,6 +79,88 @@ export interface Source {
     page?: number;
     score?: number;
     metadata?: ChunkMetadata;
+    position?: string;    // Chunk slot inside the document (e.g. "parent-child"), used to detect updated chunks
+    contentHash?: string; // Hash of the whole document text at ingest time
+}
+
+/** Per-document result of an upsert ingestion on the central server. */
+export interface IngestSummary {
+    sourceId: string;
+    new: number;
+    unchanged: number;
+    updated: number;
+    removed: number;
+    failed: number;
+    error?: string; // First embedding failure reason when failed > 0
+}
+
+export type IngestJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** Server-side ingestion job created by /api/ingest (polled until it leaves queued/running). */
+export interface IngestJob {
+    id: string;
+    status: IngestJobStatus;
+    total: number; // Chunks that need embedding (unchanged chunks are skipped)
+    embedded: number;
+    failed: number;
+    summary: IngestSummary[];
+    error?: string | null;
+    code?: string;
+}
+
+/** Upload progress shown in the processing overlay. */
+export interface IngestProgress {
+    filesDone: number;
+    filesTotal: number;
+    currentFile?: string;
+    embedded: number;
+    total: number;
+    failed: number;
+}
+
+export type ReembedStatus = 'idle' | 'running' | 'paused' | 'completed' | 'failed';
+
+/** Server-side job that rebuilds every vector with a new embedding model. */
+export interface ReembedJob {
+    status: ReembedStatus;
+    targetModel?: string;
+    total?: number;
+    processed?: number;
+    failed?: number;
+    lastError?: string | null;
+    startedAt?: number;
+    finishedAt?: number | null;
+    error?: string | null;
+}
+
+/** parseFiles progress steps. 'unparseable' reports PDF pages without a text layer ({ pages, totalPages }). */
+export type ParseStep = 'reading' | 'embedding' | 'unparseable' | 'complete' | 'error';
+
+/** Browser-side cached embedding (LocalDB `embedding_cache`, id = hash of model + normalized text). */
+export interface EmbeddingCacheEntry extends BaseDocument {
+    model: string;
+    vector: number[];
+}
+
+/** Hit/miss counters of an embedding cache (hits and misses count since server start / page load). */
+export interface EmbeddingCacheStats {
+    entries: number;
+    maxEntries: number;
+    hits: number;
+    misses: number;
+    hitRate: number;
+    evictions: number;
+}
+
+/** Central index state reported by the server's /stats endpoint. */
+export interface IndexInfo {
+    count: number;
+    schemaVersion: number;
+    expectedSchemaVersion: number;
+    migrationRequired: boolean;
+    vectorDimension: number | null;
+    embeddingModel: string | null; // null: index predates model tracking
+    reembed: ReembedJob;
 }
 
 export interface KnowledgeChunk extends BaseDocument {
@@ -54,17 +172,52 @@ export interface KnowledgeChunk extends BaseDocument {
     score?: number; // Runtime score
     rerankScore?: number; // Added for Hybrid Reranker
     debug?: any; // Added for debug info
+    parentId?: string; // Search results: hash identifying the parent passage (children share it)
+    childHits?: number; // Search results: how many children of this parent matched
+    matchedChildren?: MatchedChild[]; // Search results: best-matching children, best first
+    matchedIdentifiers?: string[]; // Identifier lookup results: the query identifiers this chunk contains
+}
+
+/** Identifiers found in a query, looked up exactly instead of through embeddings. */
+export interface QueryIdentifiers {
+    ticketIds: string[];
+    customerIds: string[];
+    errorCodes: string[];
+}
+
+/** A child chunk that matched the query, returned with its parent by /api/search. */
+export interface MatchedChild {
+    id: string;
+    text: string;
+    score: number;
 }
 
 // --- RAG PIPELINE VISUALIZATION TYPES ---
 export type PipelineStepType = 'analyzing' | 'vectorizing' | 'searching' | 'reranking' | 'generating' | 'idle';
 
+/** A word the query normalizer replaced before searching. */
+export interface QueryCorrection {
+    from: string;
+    to: string;
+    kind: 'finglish' | 'product' | 'typo';
+}
+
+export interface QueryNormalization {
+    normalized: string;
+    corrections: QueryCorrection[];
+}
+
 export interface PipelineData {
     step: PipelineStepType;
     extractedKeywords?: string[]; // Real extracted terms
     expandedQuery?: string;       // Synonyms added
+    correctedQuery?: string;      // Query actually searched when the normalizer changed words
+    queryCorrections?: QueryCorrection[];
     vectorPreview?: string;       // Visual representation of embedding
-    retrievedCandidates?: { title: string; score: number; accepted?: boolean }[]; // Added accepted flag
+    retrievedCandidates?: { title: string; score: number; rerankScore?: number; accepted?: boolean; redundant?: boolean }[]; // redundant = dropped by MMR
+    rerankModel?: string;         // Cross-encoder used for the rerank stage
+    rerankApplied?: boolean;      // false = reranker skipped/unreachable, hybrid order kept
+    minConfidence?: number;       // Threshold that decided the accepted flag
     processingTime?: number;
 }
 // ----------------------------------------
@@ -75,6 +228,14 @@ export interface DebugInfo {
     candidateCount: number;
     logicStep: string;
     extractedKeywords: string[];
+    rerankModel?: string;    // Set only when the cross-encoder actually reordered the candidates
+    rerankScores?: number[]; // Cross-encoder scores of the final context, in order
+    rejectedCount?: number;  // Candidates dropped for scoring below minConfidence
+    redundantCount?: number; // Relevant candidates MMR dropped as near-duplicates
+    contextTokens?: number;  // Estimated tokens of the CONTEXT block
+    droppedForBudget?: number; // Accepted passages left out by contextTokenBudget
+    identifiers?: string[];  // Identifiers detected in the query (exact lookup path)
+    pinnedCount?: number;    // Passages pinned to the top of the context by the identifier lookup
 }
 
 export interface Message {
@@ -83,12 +244,17 @@ export interface Message {
     content: string;
     timestamp: Date;
     isThinking?: boolean;
+    isStreaming?: boolean; // Tokens are still arriving from the model
     pipelineData?: PipelineData; // Add live pipeline data to message
     sources?: Source[];
     options?: string[];
     selectedOption?: string;
     debugInfo?: DebugInfo;
     feedback?: number;
+    retrievedContext?: string; // Context the answer was grounded on (kept for fine-tuning feedback)
+    model?: string;
+    isError?: boolean;   // Error reply, not an answer (never saved as fine-tuning data)
+    isPartial?: boolean; // Generation was stopped by the user; content ends with the stop notice
 }
 
 export interface Conversation extends BaseDocument {
@@ -103,6 +269,7 @@ export interface DocumentStatus {
     chunks: number;
     category?: DocCategory;
     subCategory?: string;
+    ingestedAt?: number;
 }
 
 export type ViewMode = 'chat' | 'graph';
@@ -158,6 +325,8 @@ export interface BenchmarkResult {
     relevanceScore?: number;    // RAGAS Metric: 0-1
     retrievedSources: Source[];
     timeTakenMs: number;
+    scoringDegraded?: boolean;  // Embedding failed: score is keyword recall only
+    scoringError?: string;
 }
 
 export interface BenchmarkRun extends BaseDocument {
@@ -170,6 +339,23 @@ export interface BenchmarkRun extends BaseDocument {
     avgTime: number;
     results: BenchmarkResult[];
     configUsed?: SearchOverrides; // Record what config achieved this
+    degradedCases?: number;       // Cases scored without semantic similarity
+}
+
+/**
+ * One entry of the editable synonym dictionary. A query containing any of `synonyms` is expanded
+ * with `term`; a bidirectional entry also expands a query containing `term` with its synonyms.
+ */
+export interface SynonymEntry extends BaseDocument {
+    term: string;
+    synonyms: string[];
+    bidirectional: boolean;
+}
+
+/** A query after synonym expansion, with the phrases that were added and what triggered each one. */
+export interface SynonymExpansion {
+    expanded: string;
+    added: { phrase: string; trigger: string }[];
 }
 
 export interface FineTuningRecord extends BaseDocument {
@@ -188,6 +374,10 @@ export interface QueryResult {
     error?: string;
     options?: string[];
     isAmbiguous?: boolean;
+    isPartial?: boolean; // Generation was stopped by the user before completion
+    noAnswer?: boolean;  // No candidate reached minConfidence; the LLM was not called
+    context?: string;    // Exact CONTEXT block sent to the chat model
+    model?: string;      // Chat model that produced the answer
 }
 
 // --- NEW TYPES FOR AUTO-TUNER ---
@@ -195,6 +385,9 @@ export interface SearchOverrides {
     minConfidence?: number;
     temperature?: number;
     vectorWeight?: number; // 0.0 to 1.0 (Vector vs Keyword balance)
+    fusionMode?: FusionMode;
+    rrfK?: number;
+    mmrLambda?: number; // 0.0 to 1.0 (1 = no diversification)
     strategyName?: string;
     enableReranker?: boolean;
 }
@@ -205,4 +398,5 @@ export interface TuningStepResult {
     score: number;
     pass: boolean;
     logs: string[];
+    degradedCases?: number;
 }